@@ -0,0 +1,128 @@
+import { z, ZodType } from "zod";
+import { describe, expect, test } from "@jest/globals";
+import { judge, majorityVote, mergeWith } from "./aggregators";
+import { elelem } from "./elelem";
+import { ElelemContext, ElelemEnsembleRequest } from "./types";
+
+const requestFor = <T>(schema: ZodType<T>): ElelemEnsembleRequest<T> => ({
+  chatId: "classify",
+  systemPrompt: "Classify the review.",
+  userPrompt: "Great, but too expensive.",
+  schema,
+});
+
+const labelSchema = z.object({ label: z.string() });
+
+// the vote and merge aggregators never call models
+const noContext = {} as ElelemContext;
+
+describe("majority vote", () => {
+  test("votes on each field", async () => {
+    const { result, agreement } = await majorityVote<{
+      label: string;
+      score: number;
+    }>()(
+      [
+        { label: "positive", score: 4 },
+        { label: "negative", score: 4 },
+        { label: "positive", score: 3 },
+        { label: "positive", score: 4 },
+      ],
+      requestFor(z.object({ label: z.string(), score: z.number() })),
+      noContext,
+    );
+
+    expect(result).toEqual({ label: "positive", score: 4 });
+    expect(agreement).toBeCloseTo(0.75);
+  });
+
+  test("votes on whole values", async () => {
+    const { result, agreement } = await majorityVote<string[]>()(
+      [["a", "b"], ["b"], ["a", "b"]],
+      requestFor(z.array(z.string())),
+      noContext,
+    );
+
+    expect(result).toEqual(["a", "b"]);
+    expect(agreement).toBeCloseTo(2 / 3);
+  });
+
+  test("votes on whole results when the fields don't combine", async () => {
+    const kindSchema = z.discriminatedUnion("kind", [
+      z.object({ kind: z.literal("a"), a: z.string() }),
+      z.object({ kind: z.literal("b"), b: z.string() }),
+    ]);
+
+    const { result, agreement } = await majorityVote<
+      z.infer<typeof kindSchema>
+    >()(
+      [
+        { kind: "a", a: "x" },
+        { kind: "b", b: "y" },
+        { kind: "b", b: "z" },
+      ],
+      requestFor(kindSchema),
+      noContext,
+    );
+
+    // per field, kind "b" wins along with a missing b, which isn't valid
+    expect(kindSchema.safeParse(result).success).toBe(true);
+    expect(result).toEqual({ kind: "a", a: "x" });
+    expect(agreement).toBeCloseTo(1 / 3);
+  });
+});
+
+describe("merge", () => {
+  test("scores agreement with the merged result", async () => {
+    const { result, agreement } = await mergeWith<{ tags: string[] }>(
+      (results) => ({
+        tags: [...new Set(results.flatMap((result) => result.tags))].sort(),
+      }),
+    )(
+      [{ tags: ["a"] }, { tags: ["a", "b"] }, { tags: ["b", "a"] }],
+      requestFor(z.object({ tags: z.array(z.string()) })),
+      noContext,
+    );
+
+    expect(result).toEqual({ tags: ["a", "b"] });
+    expect(agreement).toBeCloseTo(1 / 3);
+  });
+});
+
+describe("judge", () => {
+  test("picks the candidate chosen by the judge model", async () => {
+    const prompts: string[] = [];
+
+    const llm = elelem.init({
+      providers: {
+        judge: {
+          formatRequest: (_systemPromptWithFormat, userPrompt) => userPrompt,
+          call: async (userPrompt: string) => {
+            prompts.push(userPrompt);
+            return `{"best": 1}`;
+          },
+          extractResponse: (response: string) => response,
+          extractUsage: () => ({
+            prompt_tokens: 100,
+            completion_tokens: 5,
+            total_tokens: 105,
+          }),
+          estimateCost: () => 0.01,
+        },
+      },
+    });
+
+    const { result } = await llm.session("judge", {}, async (c) =>
+      judge<{ label: string }>({ provider: "judge" })(
+        [{ label: "positive" }, { label: "mixed" }, { label: "mixed" }],
+        requestFor(labelSchema),
+        c,
+      ),
+    );
+
+    expect(result.result).toEqual({ label: "mixed" });
+    expect(result.agreement).toBeCloseTo(2 / 3);
+    expect(prompts[0]).toContain(`1: {"label":"mixed"}`);
+    expect(prompts[0]).toContain("Great, but too expensive.");
+  });
+});
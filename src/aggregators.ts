@@ -0,0 +1,148 @@
+import { z } from "zod";
+import { JsonSchemaAndExampleFormatter } from "./formatters";
+import {
+  ElelemAggregator,
+  ElelemFormatter,
+  ElelemGenerateOptions,
+  ElelemMessage,
+} from "./types";
+
+// compares values structurally, ignoring key order
+const toVoteKey = (value: unknown): string =>
+  JSON.stringify(value, (_key, nested) =>
+    typeof nested === "object" && nested !== null && !Array.isArray(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : nested,
+  );
+
+// the most common value, earliest first on ties, and the share of values that agree with it
+const vote = <V>(values: V[]): { winner: V; share: number } => {
+  const counts = new Map<string, { value: V; count: number }>();
+
+  for (const value of values) {
+    const key = toVoteKey(value);
+    const tally = counts.get(key) || { value, count: 0 };
+    tally.count++;
+    counts.set(key, tally);
+  }
+
+  const best = [...counts.values()].reduce((a, b) =>
+    b.count > a.count ? b : a,
+  );
+
+  return { winner: best.value, share: best.count / values.length };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const agreementWith = <T>(result: T, results: T[]): number =>
+  results.filter((candidate) => toVoteKey(candidate) === toVoteKey(result))
+    .length / results.length;
+
+// votes on each top-level field of object results, or on whole results otherwise
+// the agreement is the average share of results that agree with each winning field
+// when the winning fields don't combine into a valid result, e.g. across union members, the most common whole result wins
+export const majorityVote =
+  <T>(): ElelemAggregator<T> =>
+  async (results, request) => {
+    const records = (results as unknown[]).filter(isRecord);
+    const wholeVote = () => {
+      const { winner, share } = vote(results);
+      return { result: winner, agreement: share };
+    };
+
+    if (records.length !== results.length) {
+      return wholeVote();
+    }
+
+    const fields = [
+      ...new Set(records.flatMap((record) => Object.keys(record))),
+    ];
+
+    if (fields.length === 0) {
+      return { result: results[0], agreement: 1 };
+    }
+
+    const votes = fields.map((field) => ({
+      field,
+      ...vote(records.map((record) => record[field])),
+    }));
+
+    const result = Object.fromEntries(
+      votes
+        .filter(({ winner }) => winner !== undefined)
+        .map(({ field, winner }) => [field, winner]),
+    );
+
+    if (!request.schema.safeParse(result).success) {
+      return wholeVote();
+    }
+
+    return {
+      result: result as T,
+      agreement:
+        votes.reduce((total, { share }) => total + share, 0) / votes.length,
+    };
+  };
+
+// the agreement is the share of results equal to the merged one
+export const mergeWith =
+  <T>(merge: (results: T[]) => T): ElelemAggregator<T> =>
+  async (results) => {
+    const merged = merge(results);
+    return { result: merged, agreement: agreementWith(merged, results) };
+  };
+
+export interface JudgeConfig {
+  provider: string;
+  modelOptions?: object;
+  // defaults to JsonSchemaAndExampleFormatter
+  formatter?: ElelemFormatter;
+  options?: ElelemGenerateOptions;
+}
+
+const judgeSchema = z.object({ best: z.number().int().min(0) });
+
+const judgeUserPrompt = (
+  userPrompt: string | ElelemMessage[],
+  results: unknown[],
+): string =>
+  [
+    "Request:",
+    typeof userPrompt === "string" ? userPrompt : JSON.stringify(userPrompt),
+    "",
+    "Candidate answers:",
+    ...results.map((result, index) => `${index}: ${JSON.stringify(result)}`),
+  ].join("\n");
+
+// asks a model to pick the best result; the agreement is the share of results equal to its pick
+export const judge =
+  <T>(config: JudgeConfig): ElelemAggregator<T> =>
+  async (results, request, context) => {
+    const { result } = await context.generate(
+      config.provider,
+      `${request.chatId}-judge`,
+      config.modelOptions || {},
+      `You are judging candidate answers to the request below, which was given these instructions:
+${request.systemPrompt}
+
+Respond with the index of the most correct and complete candidate.`,
+      judgeUserPrompt(request.userPrompt, results),
+      judgeSchema,
+      config.formatter || JsonSchemaAndExampleFormatter,
+      config.options,
+    );
+
+    if (result.best >= results.length) {
+      throw new Error(
+        `The judge picked candidate ${result.best} out of ${results.length}!`,
+      );
+    }
+
+    const best = results[result.best];
+
+    return { result: best, agreement: agreementWith(best, results) };
+  };
@@ -0,0 +1,590 @@
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { describe, expect, test, beforeEach, afterEach } from "@jest/globals";
+import { z } from "zod";
+import objectHash from "object-hash";
+import {
+  buildActionCacheKey,
+  buildGenerationCacheKey,
+  filesystemCache,
+  getCache,
+  memoryCache,
+  singleFlight,
+  tieredCache,
+} from "./caching";
+import { elelem } from "./elelem";
+import {
+  JsonSchemaAndExampleFormatter,
+  LangchainJsonSchemaFormatter,
+  NullFormatter,
+} from "./formatters";
+import { ElelemCacheMissError, ElelemCachePolicy } from "./types";
+
+describe("memory cache", () => {
+  test("evicts the least recently used entry", async () => {
+    const cache = memoryCache({ maxEntries: 2 });
+
+    await cache.write({ k: 1 }, "one");
+    await cache.write({ k: 2 }, "two");
+    expect(await cache.read({ k: 1 })).toBe("one");
+
+    await cache.write({ k: 3 }, "three");
+
+    expect(await cache.read({ k: 1 })).toBe("one");
+    expect(await cache.read({ k: 2 })).toBeNull();
+    expect(await cache.read({ k: 3 })).toBe("three");
+  });
+
+  test("bounds total size", async () => {
+    const cache = memoryCache({ maxBytes: 200 });
+
+    await cache.write({ k: 1 }, "a".repeat(40));
+    await cache.write({ k: 2 }, "b".repeat(40));
+    await cache.write({ k: 3 }, "c".repeat(200));
+
+    expect(await cache.read({ k: 1 })).toBe("a".repeat(40));
+    expect(await cache.read({ k: 3 })).toBeNull();
+
+    await cache.write({ k: 4 }, "d".repeat(40));
+    expect(await cache.read({ k: 2 })).toBeNull();
+  });
+
+  test("expires entries", async () => {
+    const cache = memoryCache({});
+
+    await cache.write({ k: 1 }, "one", { ttlSeconds: 0 });
+    await cache.write({ k: 2 }, "two", { ttlSeconds: 60 });
+
+    expect(await cache.read({ k: 1 })).toBeNull();
+    expect(await cache.read({ k: 2 })).toBe("two");
+  });
+
+  test("invalidates by id and namespace", async () => {
+    const cache = memoryCache({});
+
+    await cache.write({ k: 1 }, "one", { id: "a", namespace: "v1" });
+    await cache.write({ k: 2 }, "two", { id: "b", namespace: "v1" });
+    await cache.write({ k: 1 }, "one", { id: "a", namespace: "v2" });
+
+    expect(await cache.invalidate!({ id: "a", namespace: "v1" })).toBe(1);
+    expect(await cache.read({ k: 1 }, { namespace: "v1" })).toBeNull();
+    expect(await cache.read({ k: 1 }, { namespace: "v2" })).toBe("one");
+
+    expect(await cache.invalidate!({ namespace: "v1" })).toBe(1);
+    expect(await cache.read({ k: 2 }, { namespace: "v1" })).toBeNull();
+  });
+});
+
+describe("filesystem cache", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "elelem-cache-"));
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test("round trips across instances", async () => {
+    await filesystemCache({ directory }).write({ k: 1 }, "one");
+
+    expect(await filesystemCache({ directory }).read({ k: 1 })).toBe("one");
+    expect(await filesystemCache({ directory }).read({ k: 2 })).toBeNull();
+  });
+
+  test("handles concurrent writers", async () => {
+    const writers = Array.from({ length: 20 }, (_, i) =>
+      filesystemCache({ directory }).write({ k: 1 }, `value-${i}`),
+    );
+    await Promise.all(writers);
+
+    expect(await filesystemCache({ directory }).read({ k: 1 })).toMatch(
+      /^value-\d+$/,
+    );
+    expect(await readdir(directory)).toHaveLength(1);
+  });
+
+  test("expires and invalidates entries", async () => {
+    const cache = filesystemCache({ directory });
+
+    await cache.write({ k: 1 }, "one", { ttlSeconds: 0 });
+    await cache.write({ k: 2 }, "two", { id: "a", namespace: "v1" });
+    await cache.write({ k: 3 }, "three", { id: "b", namespace: "v1" });
+
+    expect(await cache.read({ k: 1 })).toBeNull();
+
+    expect(await cache.invalidate!({ id: "a", namespace: "v1" })).toBe(1);
+    expect(await cache.read({ k: 2 }, { namespace: "v1" })).toBeNull();
+    expect(await cache.read({ k: 3 }, { namespace: "v1" })).toBe("three");
+
+    expect(await cache.invalidate!({ namespace: "v1" })).toBe(1);
+    expect(await cache.read({ k: 3 }, { namespace: "v1" })).toBeNull();
+  });
+});
+
+describe("tiered cache", () => {
+  test("populates the front cache from the back cache", async () => {
+    const front = memoryCache({});
+    const back = memoryCache({});
+    const cache = tieredCache(front, back);
+
+    await back.write({ k: 1 }, "one");
+
+    expect(await front.read({ k: 1 })).toBeNull();
+    expect(await cache.read({ k: 1 })).toBe("one");
+    expect(await front.read({ k: 1 })).toBe("one");
+
+    await cache.write({ k: 2 }, "two", { id: "a" });
+    expect(await back.read({ k: 2 })).toBe("two");
+
+    expect(await cache.invalidate!({ id: "a" })).toBe(1);
+    expect(await front.read({ k: 2 })).toBeNull();
+    expect(await back.read({ k: 2 })).toBeNull();
+  });
+
+  test("is selected by configuring memory with another backend", async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), "elelem-cache-"));
+    try {
+      await getCache({ filesystem: { directory }, memory: true }).write(
+        { k: 1 },
+        "one",
+      );
+
+      expect(await filesystemCache({ directory }).read({ k: 1 })).toBe("one");
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("single-flight", () => {
+  test("shares the run in flight for the same key", async () => {
+    const flights = singleFlight();
+    let runs = 0;
+
+    const run = async () => {
+      runs += 1;
+      await new Promise((r) => setTimeout(r, 10));
+      return runs;
+    };
+
+    const [a, b, c] = [
+      flights({ k: 1 }, run),
+      flights({ k: 1 }, run),
+      flights({ k: 2 }, run),
+    ];
+
+    expect([a.shared, b.shared, c.shared]).toEqual([false, true, false]);
+    expect(b.promise).toBe(a.promise);
+    await Promise.all([a.promise, c.promise]);
+    expect(runs).toBe(2);
+
+    // finished runs aren't shared
+    expect(flights({ k: 1 }, run).shared).toBe(false);
+  });
+
+  test("coalesces concurrent identical generations", async () => {
+    let calls = 0;
+
+    const llm = elelem.init({
+      cache: { memory: true },
+      providers: {
+        slow: {
+          formatRequest: (_systemPromptWithFormat, userPrompt) => userPrompt,
+          call: async (request: string) => {
+            calls += 1;
+            await new Promise((r) => setTimeout(r, 20));
+            return JSON.stringify({ str: request });
+          },
+          extractResponse: (response: string) => response,
+          extractUsage: () => ({
+            prompt_tokens: 10,
+            completion_tokens: 5,
+            total_tokens: 15,
+          }),
+          estimateCost: () => 0.01,
+        },
+      },
+    });
+
+    const { result, usage } = await llm.session(
+      "single-flight",
+      {},
+      async (c) =>
+        Promise.all(
+          ["same", "same", "same", "different"].map(async (input) => {
+            const { result } = await c.generate(
+              "slow",
+              "classify",
+              {},
+              "Wrap the input.",
+              input,
+              z.object({ str: z.string() }),
+              NullFormatter,
+            );
+            return result.str;
+          }),
+        ),
+    );
+
+    expect(result).toEqual(["same", "same", "same", "different"]);
+    expect(calls).toBe(2);
+    expect(usage.total_tokens).toBe(30);
+  });
+
+  test("shares failures with waiting callers instead of retrying for each", async () => {
+    let calls = 0;
+
+    const llm = elelem.init({
+      backoffOptions: { numOfAttempts: 2, startingDelay: 1 },
+      providers: {
+        down: {
+          formatRequest: (_systemPromptWithFormat, userPrompt) => userPrompt,
+          call: async () => {
+            calls += 1;
+            await new Promise((r) => setTimeout(r, 10));
+            throw new Error("503 Service Unavailable");
+          },
+          extractResponse: (response: string) => response,
+          extractUsage: () => undefined,
+          estimateCost: () => 0,
+        },
+      },
+    });
+
+    const { result } = await llm.session("single-flight", {}, async (c) =>
+      Promise.allSettled(
+        [0, 1, 2].map(() =>
+          c.generate(
+            "down",
+            "classify",
+            {},
+            "Wrap the input.",
+            "same",
+            z.object({ str: z.string() }),
+            NullFormatter,
+          ),
+        ),
+      ),
+    );
+
+    // without a cache, and with one generation retried twice for all three callers
+    expect(result.map(({ status }) => status)).toEqual([
+      "rejected",
+      "rejected",
+      "rejected",
+    ]);
+    expect(calls).toBe(2);
+  });
+});
+
+describe("cache policies", () => {
+  const strSchema = z.object({ str: z.string() });
+
+  const countingLlm = () => {
+    const counter = { calls: 0 };
+
+    const llm = elelem.init({
+      cache: { memory: true },
+      providers: {
+        counting: {
+          formatRequest: (_systemPromptWithFormat, userPrompt) => userPrompt,
+          call: async (request: string) => {
+            counter.calls += 1;
+            return JSON.stringify({ str: `${request}-${counter.calls}` });
+          },
+          extractResponse: (response: string) => response,
+          extractUsage: () => undefined,
+          estimateCost: () => 0,
+        },
+      },
+    });
+
+    return { llm, counter };
+  };
+
+  const generateWith = (
+    llm: ReturnType<typeof countingLlm>["llm"],
+    callPolicy?: ElelemCachePolicy,
+    sessionPolicy?: ElelemCachePolicy,
+  ) =>
+    llm
+      .session(
+        "cache-policies",
+        {},
+        async (c) => {
+          const { result } = await c.generate(
+            "counting",
+            "policy",
+            {},
+            "Wrap the input.",
+            "input",
+            strSchema,
+            NullFormatter,
+            { cachePolicy: callPolicy },
+          );
+          return result.str;
+        },
+        { cachePolicy: sessionPolicy },
+      )
+      .then(({ result }) => result);
+
+  test("bypass neither reads nor writes", async () => {
+    const { llm } = countingLlm();
+
+    expect(await generateWith(llm)).toBe("input-1");
+    expect(await generateWith(llm, "bypass")).toBe("input-2");
+    expect(await generateWith(llm)).toBe("input-1");
+  });
+
+  test("refresh regenerates and overwrites", async () => {
+    const { llm } = countingLlm();
+
+    expect(await generateWith(llm)).toBe("input-1");
+    expect(await generateWith(llm, "refresh")).toBe("input-2");
+    expect(await generateWith(llm)).toBe("input-2");
+  });
+
+  test("read-only doesn't write", async () => {
+    const { llm } = countingLlm();
+
+    expect(await generateWith(llm, "read-only")).toBe("input-1");
+    expect(await generateWith(llm, "read-only")).toBe("input-2");
+    expect(await generateWith(llm)).toBe("input-3");
+    expect(await generateWith(llm, "read-only")).toBe("input-3");
+  });
+
+  test("cache-only fails on a miss without calling the provider", async () => {
+    const { llm, counter } = countingLlm();
+
+    const error = await generateWith(llm, "cache-only").catch((e) => e);
+    expect(error).toBeInstanceOf(ElelemCacheMissError);
+    expect(error.id).toBe("policy");
+    expect(counter.calls).toBe(0);
+
+    expect(await generateWith(llm)).toBe("input-1");
+    expect(await generateWith(llm, "cache-only")).toBe("input-1");
+  });
+
+  test("per-call policies override the session policy", async () => {
+    const { llm } = countingLlm();
+
+    expect(await generateWith(llm, undefined, "bypass")).toBe("input-1");
+    expect(await generateWith(llm, "default", "bypass")).toBe("input-2");
+    expect(await generateWith(llm, undefined, "cache-only")).toBe("input-2");
+  });
+
+  test("applies to actions", async () => {
+    const { llm } = countingLlm();
+    let calls = 0;
+
+    const runAction = (cachePolicy?: ElelemCachePolicy) =>
+      llm
+        .session("cache-policies", {}, async (c) =>
+          c.action(
+            "count",
+            { input: "input" },
+            String,
+            Number,
+            async () => (calls += 1),
+            undefined,
+            { cachePolicy },
+          ),
+        )
+        .then(({ result }) => result);
+
+    expect(await runAction()).toBe(1);
+    expect(await runAction("refresh")).toBe(2);
+    expect(await runAction()).toBe(2);
+    await expect(runAction("cache-only")).resolves.toBe(2);
+  });
+});
+
+describe("cache keys", () => {
+  const schema = z.object({ capitol: z.string() });
+
+  const keyInput = {
+    provider: "openai",
+    chatId: "capitol",
+    systemPrompt: "You are a   tour guide.",
+    systemPromptWithFormat: `You are a   tour guide.\n${JsonSchemaAndExampleFormatter(
+      schema,
+    )}`,
+    formatter: JsonSchemaAndExampleFormatter,
+    userPrompt: " What is the capitol of France? ",
+    modelOptions: { model: "gpt-3.5-turbo", user: "someone", max_tokens: 100 },
+    schema,
+    outputMode: "text" as const,
+  };
+
+  const hash = (key: object) => objectHash(key);
+
+  test("defaults to the formatted prompt and every option", () => {
+    expect(buildGenerationCacheKey({}, keyInput)).toEqual({
+      systemPromptWithFormat: keyInput.systemPromptWithFormat,
+      userPrompt: keyInput.userPrompt,
+      combinedOptions: keyInput.modelOptions,
+    });
+  });
+
+  test("separates providers, except for openai's text mode", () => {
+    const local = buildGenerationCacheKey(
+      {},
+      { ...keyInput, provider: "local" },
+    );
+
+    expect(local).toMatchObject({ provider: "local" });
+    expect(hash(local)).not.toBe(hash(buildGenerationCacheKey({}, keyInput)));
+    expect(
+      buildGenerationCacheKey({}, { ...keyInput, outputMode: "tool" }),
+    ).toMatchObject({ provider: "openai", outputMode: "tool" });
+  });
+
+  test("includes and excludes options", () => {
+    const excluded = buildGenerationCacheKey(
+      { excludeOptions: ["user", "max_tokens"] },
+      keyInput,
+    );
+    const included = buildGenerationCacheKey(
+      { includeOptions: ["model"] },
+      { ...keyInput, modelOptions: { ...keyInput.modelOptions, user: "x" } },
+    );
+
+    expect(hash(excluded)).toBe(hash(included));
+    expect(excluded).toMatchObject({
+      combinedOptions: { model: "gpt-3.5-turbo" },
+    });
+  });
+
+  test("normalizes whitespace", () => {
+    const keyConfig = { normalizeWhitespace: true };
+
+    expect(
+      hash(
+        buildGenerationCacheKey(keyConfig, {
+          ...keyInput,
+          userPrompt: [
+            { role: "user", content: "What is the capitol of\nFrance?" },
+          ],
+        }),
+      ),
+    ).toBe(
+      hash(
+        buildGenerationCacheKey(keyConfig, {
+          ...keyInput,
+          userPrompt: [
+            { role: "user", content: "  What is the capitol of France?" },
+          ],
+        }),
+      ),
+    );
+  });
+
+  test("keys on the formatter name instead of its output", () => {
+    const keyConfig = { formatterName: true };
+    const reworded = buildGenerationCacheKey(keyConfig, {
+      ...keyInput,
+      systemPromptWithFormat: `${keyInput.systemPrompt}\nReword the format.`,
+    });
+
+    expect(hash(buildGenerationCacheKey(keyConfig, keyInput))).toBe(
+      hash(reworded),
+    );
+    expect(reworded).toMatchObject({
+      formatter: "JsonSchemaAndExampleFormatter",
+    });
+    expect(
+      hash(
+        buildGenerationCacheKey(keyConfig, {
+          ...keyInput,
+          formatter: LangchainJsonSchemaFormatter,
+        }),
+      ),
+    ).not.toBe(hash(reworded));
+  });
+
+  test("includes a schema hash and prompt version", () => {
+    const keyConfig = { schemaHash: true, promptVersion: "1" };
+    const key = buildGenerationCacheKey(keyConfig, keyInput);
+
+    expect(
+      hash(
+        buildGenerationCacheKey(keyConfig, {
+          ...keyInput,
+          schema: z.object({ capitol: z.number() }),
+        }),
+      ),
+    ).not.toBe(hash(key));
+    expect(
+      hash(
+        buildGenerationCacheKey(keyConfig, { ...keyInput, promptVersion: "2" }),
+      ),
+    ).not.toBe(hash(key));
+    expect(key).toMatchObject({ promptVersion: "1" });
+  });
+
+  test("includes the prompt template", () => {
+    const template = { name: "capitol", version: "1", variables: { a: 1 } };
+    const key = buildGenerationCacheKey({}, { ...keyInput, template });
+
+    expect(key).toMatchObject({ template });
+    expect(
+      hash(
+        buildGenerationCacheKey(
+          {},
+          { ...keyInput, template: { ...template, version: "2" } },
+        ),
+      ),
+    ).not.toBe(hash(key));
+  });
+
+  test("uses custom builders", () => {
+    const keyConfig = {
+      generation: ({
+        chatId,
+        promptVersion,
+      }: {
+        chatId: string;
+        promptVersion?: string;
+      }) => ({
+        chatId,
+        promptVersion,
+      }),
+      action: ({ actionId }: { actionId: string }) => ({ actionId }),
+    };
+
+    expect(buildGenerationCacheKey(keyConfig, keyInput)).toEqual({
+      chatId: "capitol",
+      promptVersion: undefined,
+    });
+    expect(
+      buildActionCacheKey(keyConfig, { actionId: "add", actionContext: {} }),
+    ).toEqual({ actionId: "add" });
+  });
+
+  test("separates actions that share a context", async () => {
+    const llm = elelem.init({ cache: { memory: true } });
+
+    const { result } = await llm.session("cache-keys", {}, async (c) => {
+      const sum = await c.action(
+        "add",
+        { a: 2, b: 3 },
+        String,
+        Number,
+        async ({ a, b }) => a + b,
+      );
+      const product = await c.action(
+        "multiply",
+        { a: 2, b: 3 },
+        String,
+        Number,
+        async ({ a, b }) => a * b,
+      );
+      return [sum, product];
+    });
+
+    expect(result).toEqual([5, 6]);
+  });
+});
@@ -1,28 +1,564 @@
-import { ElelemCache, ElelemCacheConfig } from "./types";
+import {
+  ElelemCache,
+  ElelemCacheConfig,
+  ElelemCacheEntryOptions,
+  ElelemActionCacheKeyInput,
+  ElelemCacheInvalidation,
+  ElelemCacheKeyConfig,
+  ElelemCacheKeyInput,
+  ElelemCacheLockConfig,
+  ElelemMessage,
+  ElelemFilesystemCacheConfig,
+  ElelemMemoryCacheConfig,
+} from "./types";
 import objectHash from "object-hash";
+import { Redis } from "ioredis";
+import { randomUUID } from "crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  unlink,
+  writeFile,
+} from "fs/promises";
+import path from "path";
+import { zodToJsonSchema } from "zod-to-json-schema";
+
+const prefixed = (namespace: string | undefined, key: string) =>
+  namespace === undefined ? key : `${namespace}:${key}`;
+
+// the index only needs to live as long as the newest entry it points to,
+// and stays persistent once any of its entries has no TTL
+const INDEX_SCRIPT = `
+local ttl = redis.call("TTL", KEYS[1])
+redis.call("SADD", KEYS[1], ARGV[1])
+if ARGV[2] == "" then
+  redis.call("PERSIST", KEYS[1])
+elseif ttl == -2 or (ttl >= 0 and ttl < tonumber(ARGV[2])) then
+  redis.call("EXPIRE", KEYS[1], ARGV[2])
+end
+`;
+
+const redisCache = (redis: Redis): ElelemCache => {
+  const indexKey = (namespace: string | undefined, id: string) =>
+    prefixed(namespace, `elelem:id:${id}`);
+
+  return {
+    read: async (key: object, options?: ElelemCacheEntryOptions) => {
+      const hashedKey = prefixed(options?.namespace, objectHash(key));
+      return redis.get(hashedKey);
+    },
+    write: async (
+      key: object,
+      value: string,
+      options?: ElelemCacheEntryOptions,
+    ) => {
+      const hashedKey = prefixed(options?.namespace, objectHash(key));
+      const ttl = options?.ttlSeconds;
+      const pipeline = redis.multi();
+
+      if (ttl !== undefined) {
+        pipeline.set(hashedKey, value, "EX", ttl);
+      } else {
+        pipeline.set(hashedKey, value);
+      }
+
+      // track the keys written for each chatId / actionId so they can be invalidated together
+      if (options?.id !== undefined) {
+        pipeline.eval(
+          INDEX_SCRIPT,
+          1,
+          indexKey(options.namespace, options.id),
+          hashedKey,
+          ttl ?? "",
+        );
+      }
+
+      await pipeline.exec();
+    },
+    invalidate: async (selector: ElelemCacheInvalidation) => {
+      if (selector.id !== undefined) {
+        const index = indexKey(selector.namespace, selector.id);
+        const keys = await redis.smembers(index);
+        if (keys.length === 0) {
+          return 0;
+        }
+        const [deleted] = await Promise.all([
+          redis.del(...keys),
+          redis.del(index),
+        ]);
+        return deleted;
+      }
+
+      if (selector.namespace === undefined) {
+        return 0;
+      }
+
+      let deleted = 0;
+      const stream = redis.scanStream({
+        match: `${selector.namespace}:*`,
+        count: 100,
+      });
+      for await (const keys of stream as AsyncIterable<string[]>) {
+        if (keys.length > 0) {
+          // index sets are removed too, but only cache entries are counted
+          const entries = keys.filter((key) => !key.includes(":elelem:id:"));
+          await redis.del(...keys);
+          deleted += entries.length;
+        }
+      }
+      return deleted;
+    },
+  };
+};
+
+interface StoredEntry {
+  value: string;
+  id?: string;
+  namespace?: string;
+  // epoch millis
+  expiresAt?: number;
+}
+
+const toStoredEntry = (
+  value: string,
+  options?: ElelemCacheEntryOptions,
+): StoredEntry => ({
+  value,
+  id: options?.id,
+  namespace: options?.namespace,
+  expiresAt:
+    options?.ttlSeconds !== undefined
+      ? Date.now() + options.ttlSeconds * 1000
+      : undefined,
+});
+
+const isExpired = (entry: StoredEntry) =>
+  entry.expiresAt !== undefined && entry.expiresAt <= Date.now();
+
+const matches = (entry: StoredEntry, selector: ElelemCacheInvalidation) =>
+  (selector.id === undefined || entry.id === selector.id) &&
+  (selector.namespace === undefined || entry.namespace === selector.namespace);
+
+export const memoryCache = (config: ElelemMemoryCacheConfig): ElelemCache => {
+  const maxEntries = config.maxEntries ?? 1000;
+  const maxBytes = config.maxBytes ?? Infinity;
+
+  // maps iterate in insertion order, so re-inserting on access keeps the least recently used entry first
+  const entries = new Map<string, StoredEntry & { bytes: number }>();
+  let totalBytes = 0;
+
+  const remove = (key: string) => {
+    const entry = entries.get(key);
+    if (entry !== undefined) {
+      entries.delete(key);
+      totalBytes -= entry.bytes;
+    }
+  };
+
+  return {
+    read: async (key: object, options?: ElelemCacheEntryOptions) => {
+      const hashedKey = prefixed(options?.namespace, objectHash(key));
+      const entry = entries.get(hashedKey);
+      if (entry === undefined) {
+        return null;
+      }
+      if (isExpired(entry)) {
+        remove(hashedKey);
+        return null;
+      }
+      entries.delete(hashedKey);
+      entries.set(hashedKey, entry);
+      return entry.value;
+    },
+    write: async (
+      key: object,
+      value: string,
+      options?: ElelemCacheEntryOptions,
+    ) => {
+      const hashedKey = prefixed(options?.namespace, objectHash(key));
+      const bytes =
+        Buffer.byteLength(hashedKey) + Buffer.byteLength(value, "utf8");
+
+      remove(hashedKey);
+      if (bytes > maxBytes) {
+        return;
+      }
+
+      entries.set(hashedKey, { ...toStoredEntry(value, options), bytes });
+      totalBytes += bytes;
+
+      for (const lruKey of entries.keys()) {
+        if (entries.size <= maxEntries && totalBytes <= maxBytes) {
+          break;
+        }
+        remove(lruKey);
+      }
+    },
+    invalidate: async (selector: ElelemCacheInvalidation) => {
+      let deleted = 0;
+      for (const [key, entry] of entries) {
+        if (matches(entry, selector)) {
+          remove(key);
+          deleted += 1;
+        }
+      }
+      return deleted;
+    },
+  };
+};
+
+export const filesystemCache = (
+  config: ElelemFilesystemCacheConfig,
+): ElelemCache => {
+  // namespaced entries live in their own subdirectory so a namespace can be dropped in one go
+  const directoryFor = (namespace: string | undefined) =>
+    namespace === undefined
+      ? config.directory
+      : path.join(config.directory, `ns-${encodeURIComponent(namespace)}`);
+
+  const fileFor = (key: object, namespace: string | undefined) =>
+    path.join(directoryFor(namespace), `${objectHash(key)}.json`);
+
+  const readEntry = async (file: string): Promise<StoredEntry | null> => {
+    try {
+      return JSON.parse(await readFile(file, "utf8")) as StoredEntry;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw e;
+    }
+  };
+
+  const removeFile = async (file: string) => {
+    try {
+      await unlink(file);
+      return true;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return false;
+      }
+      throw e;
+    }
+  };
+
+  const entryFiles = async (directory: string): Promise<string[]> => {
+    try {
+      const dirents = await readdir(directory, { withFileTypes: true });
+      return dirents
+        .filter((dirent) => dirent.isFile() && dirent.name.endsWith(".json"))
+        .map((dirent) => path.join(directory, dirent.name));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw e;
+    }
+  };
+
+  return {
+    read: async (key: object, options?: ElelemCacheEntryOptions) => {
+      const file = fileFor(key, options?.namespace);
+      const entry = await readEntry(file);
+      if (entry === null) {
+        return null;
+      }
+      if (isExpired(entry)) {
+        await removeFile(file);
+        return null;
+      }
+      return entry.value;
+    },
+    write: async (
+      key: object,
+      value: string,
+      options?: ElelemCacheEntryOptions,
+    ) => {
+      const file = fileFor(key, options?.namespace);
+      await mkdir(path.dirname(file), { recursive: true });
+
+      // write to a unique temp file and rename over the target, which is atomic, so concurrent
+      // writers never leave a partially written entry behind
+      const tempFile = `${file}.${randomUUID()}.tmp`;
+      try {
+        await writeFile(
+          tempFile,
+          JSON.stringify(toStoredEntry(value, options)),
+        );
+        await rename(tempFile, file);
+      } catch (e) {
+        await rm(tempFile, { force: true });
+        throw e;
+      }
+    },
+    invalidate: async (selector: ElelemCacheInvalidation) => {
+      const files = await entryFiles(directoryFor(selector.namespace));
+
+      let deleted = 0;
+      for (const file of files) {
+        const entry = await readEntry(file);
+        if (
+          entry !== null &&
+          matches(entry, selector) &&
+          (await removeFile(file))
+        ) {
+          deleted += 1;
+        }
+      }
+      return deleted;
+    },
+  };
+};
+
+// reads through the front cache and populates it on back cache hits
+export const tieredCache = (
+  front: ElelemCache,
+  back: ElelemCache,
+): ElelemCache => {
+  const backInvalidate = back.invalidate;
+
+  return {
+    read: async (key: object, options?: ElelemCacheEntryOptions) => {
+      const frontValue = await front.read(key, options);
+      if (frontValue !== null) {
+        return frontValue;
+      }
+
+      const backValue = await back.read(key, options);
+      if (backValue !== null) {
+        await front.write(key, backValue, options);
+      }
+      return backValue;
+    },
+    write: async (
+      key: object,
+      value: string,
+      options?: ElelemCacheEntryOptions,
+    ) => {
+      await Promise.all([
+        front.write(key, value, options),
+        back.write(key, value, options),
+      ]);
+    },
+    invalidate:
+      backInvalidate &&
+      (async (selector: ElelemCacheInvalidation) => {
+        const [, deleted] = await Promise.all([
+          front.invalidate?.(selector),
+          backInvalidate(selector),
+        ]);
+        return deleted;
+      }),
+  };
+};
+
+// applies the configured namespace and default ttl to every call
+const withDefaults = (
+  cache: ElelemCache,
+  cacheConfig: ElelemCacheConfig,
+): ElelemCache => {
+  const entryOptions = (
+    options?: ElelemCacheEntryOptions,
+  ): ElelemCacheEntryOptions => ({
+    ...options,
+    ttlSeconds: options?.ttlSeconds ?? cacheConfig.ttlSeconds,
+    namespace: options?.namespace ?? cacheConfig.namespace,
+  });
+
+  const invalidate = cache.invalidate;
+
+  return {
+    read: (key, options) => cache.read(key, entryOptions(options)),
+    write: (key, value, options) =>
+      cache.write(key, value, entryOptions(options)),
+    invalidate:
+      invalidate &&
+      ((selector) =>
+        invalidate({
+          ...selector,
+          namespace: selector.namespace ?? cacheConfig.namespace,
+        })),
+  };
+};
 
 export const getCache = (cacheConfig: ElelemCacheConfig): ElelemCache => {
+  let cache: ElelemCache | undefined;
   if (cacheConfig.redis) {
-    const redis = cacheConfig.redis;
-
-    return {
-      read: async (key: object) => {
-        const hashedKey = objectHash(key);
-        return redis.get(hashedKey);
-      },
-      write: async (key: object, value: string) => {
-        const hashedKey = objectHash(key);
-        await redis.set(hashedKey, value);
-      },
-    };
+    cache = redisCache(cacheConfig.redis);
+  } else if (cacheConfig.filesystem) {
+    cache = filesystemCache(cacheConfig.filesystem);
   } else if (cacheConfig.custom) {
-    return cacheConfig.custom;
-  } else {
+    cache = cacheConfig.custom;
+  }
+
+  if (cacheConfig.memory) {
+    const memory = memoryCache(
+      cacheConfig.memory === true ? {} : cacheConfig.memory,
+    );
+    cache = cache === undefined ? memory : tieredCache(memory, cache);
+  }
+
+  if (cache === undefined) {
     return {
       read: async () => null,
       write: async () => {
         // no-op
       },
+      invalidate: async () => 0,
     };
   }
+
+  return withDefaults(cache, cacheConfig);
+};
+
+// resolves with a function that releases the lock
+export type CacheLock = (key: object) => Promise<() => Promise<void>>;
+
+const noopRelease = async () => {
+  // no-op
+};
+
+// starts run, or joins the run already in flight for the same key, which is then shared
+export type SingleFlight = <R>(
+  key: object,
+  run: () => Promise<R>,
+) => { promise: Promise<R>; shared: boolean };
+
+// coalesces concurrent callers with the same key within this process, whether or not there's a cache
+export const singleFlight = (): SingleFlight => {
+  const inFlight = new Map<string, Promise<unknown>>();
+
+  return <R>(key: object, run: () => Promise<R>) => {
+    const hashedKey = objectHash(key);
+    const current = inFlight.get(hashedKey);
+
+    if (current !== undefined) {
+      return { promise: current as Promise<R>, shared: true };
+    }
+
+    const promise = run().finally(() => inFlight.delete(hashedKey));
+    inFlight.set(hashedKey, promise);
+
+    return { promise, shared: false };
+  };
+};
+
+// only deletes the lock if it's still ours, in case it expired and was taken by another caller
+const RELEASE_SCRIPT = `if redis.call("get", KEYS[1]) == ARGV[1] then return redis.call("del", KEYS[1]) else return 0 end`;
+
+const redisLock = (
+  redis: Redis,
+  namespace: string | undefined,
+  config: ElelemCacheLockConfig,
+): CacheLock => {
+  const ttlMilliseconds = (config.ttlSeconds ?? 60) * 1000;
+  const pollMilliseconds = config.pollMilliseconds ?? 100;
+
+  return async (key: object) => {
+    const lockKey = prefixed(namespace, `elelem:lock:${objectHash(key)}`);
+    const token = randomUUID();
+
+    while (
+      (await redis.set(lockKey, token, "PX", ttlMilliseconds, "NX")) === null
+    ) {
+      await new Promise((r) => setTimeout(r, pollMilliseconds));
+    }
+
+    return async () => {
+      await redis.eval(RELEASE_SCRIPT, 1, lockKey, token);
+    };
+  };
+};
+
+// only coordinates across processes, callers within one share a single flight instead
+export const getCacheLock = (cacheConfig: ElelemCacheConfig): CacheLock => {
+  const { redis, namespace, lock } = cacheConfig;
+
+  if (!redis || !lock) {
+    return async () => noopRelease;
+  }
+
+  return redisLock(redis, namespace, lock === true ? {} : lock);
+};
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, " ");
+
+const pickOptions = (modelOptions: object, keyConfig: ElelemCacheKeyConfig) =>
+  Object.fromEntries(
+    Object.entries(modelOptions).filter(
+      ([option]) =>
+        (keyConfig.includeOptions === undefined ||
+          keyConfig.includeOptions.includes(option)) &&
+        !keyConfig.excludeOptions?.includes(option),
+    ),
+  );
+
+export const buildGenerationCacheKey = (
+  keyConfig: ElelemCacheKeyConfig,
+  input: ElelemCacheKeyInput,
+): object => {
+  const promptVersion = input.promptVersion ?? keyConfig.promptVersion;
+
+  if (keyConfig.generation) {
+    return keyConfig.generation({ ...input, promptVersion });
+  }
+
+  const normalizeText = keyConfig.normalizeWhitespace
+    ? normalize
+    : (text: string) => text;
+
+  const userPrompt =
+    typeof input.userPrompt === "string"
+      ? normalizeText(input.userPrompt)
+      : input.userPrompt.map(
+          (message): ElelemMessage => ({
+            ...message,
+            content: normalizeText(message.content),
+          }),
+        );
+
+  // outside text mode the formatter isn't used, so there's nothing to name
+  const systemPrompt =
+    keyConfig.formatterName && input.outputMode === "text"
+      ? {
+          systemPrompt: normalizeText(input.systemPrompt),
+          formatter: input.formatter.name,
+        }
+      : { systemPromptWithFormat: normalizeText(input.systemPromptWithFormat) };
+
+  // openai text mode keys are left as they were so existing cache entries stay valid
+  const legacy = input.provider === "openai" && input.outputMode === "text";
+
+  return {
+    ...(legacy ? {} : { provider: input.provider }),
+    ...systemPrompt,
+    userPrompt,
+    combinedOptions: pickOptions(input.modelOptions, keyConfig),
+    ...(input.outputMode !== "text" ? { outputMode: input.outputMode } : {}),
+    ...(keyConfig.schemaHash
+      ? { schemaHash: objectHash(zodToJsonSchema(input.schema)) }
+      : {}),
+    ...(promptVersion !== undefined ? { promptVersion } : {}),
+    ...(input.template !== undefined ? { template: input.template } : {}),
+  };
+};
+
+export const buildActionCacheKey = (
+  keyConfig: ElelemCacheKeyConfig,
+  input: ElelemActionCacheKeyInput,
+): object => {
+  const promptVersion = input.promptVersion ?? keyConfig.promptVersion;
+
+  if (keyConfig.action) {
+    return keyConfig.action({ ...input, promptVersion });
+  }
+
+  return {
+    actionId: input.actionId,
+    actionContext: input.actionContext,
+    ...(promptVersion !== undefined ? { promptVersion } : {}),
+  };
 };
@@ -0,0 +1,78 @@
+import { describe, expect, test } from "@jest/globals";
+import { getPricingRegistry } from "./costs";
+
+const usage = {
+  prompt_tokens: 1_000_000,
+  completion_tokens: 1_000_000,
+  total_tokens: 2_000_000,
+};
+
+describe("pricing registry", () => {
+  const pricing = getPricingRegistry(undefined);
+
+  test("prices built-in models by prefix", () => {
+    expect(pricing("openai", "gpt-4o-mini-2024-07-18", usage)).toBeCloseTo(
+      0.75,
+    );
+    expect(pricing("openai", "gpt-4o-2024-08-06", usage)).toBeCloseTo(12.5);
+    expect(pricing("openai", "gpt-4-0125-preview", usage)).toBeCloseTo(40);
+    expect(pricing("openai", "gpt-4", usage)).toBeCloseTo(90);
+    expect(
+      pricing("anthropic", "claude-3-5-sonnet-20240620", usage),
+    ).toBeCloseTo(18);
+    expect(pricing("cohere", "command-r-plus", usage)).toBeCloseTo(12.5);
+    expect(pricing("cohere", "command", usage)).toBeCloseTo(3);
+  });
+
+  test("prices fine-tuned models", () => {
+    expect(
+      pricing("openai", "ft:gpt-4o-mini-2024-07-18:org::abc123", usage),
+    ).toBeCloseTo(1.5);
+  });
+
+  test("discounts cached input and batches", () => {
+    const cachedUsage = {
+      ...usage,
+      prompt_tokens_details: { cached_tokens: 500_000 },
+    };
+
+    // 0.5 * 2.5 + 0.5 * 1.25 + 10
+    expect(pricing("openai", "gpt-4o", cachedUsage)).toBeCloseTo(11.875);
+    expect(pricing("openai", "gpt-4o", usage, true)).toBeCloseTo(6.25);
+  });
+
+  test("doesn't price unknown models", () => {
+    expect(pricing("openai", "gpt-5", usage)).toBeUndefined();
+    expect(pricing("in-house", "gpt-4", usage)).toBeUndefined();
+    expect(pricing("openai", undefined, usage)).toBeUndefined();
+  });
+
+  test("checks configured prices first", () => {
+    const configured = getPricingRegistry({
+      models: [
+        {
+          provider: "openai",
+          model: /^gpt-4o$/,
+          inputPerMillion: 1,
+          outputPerMillion: 1,
+        },
+        {
+          provider: "in-house",
+          model: "llama",
+          inputPerMillion: 0.1,
+          outputPerMillion: 0.1,
+        },
+      ],
+    });
+
+    expect(configured("openai", "gpt-4o", usage)).toBeCloseTo(2);
+    expect(configured("openai", "gpt-4o-2024-08-06", usage)).toBeCloseTo(12.5);
+    expect(configured("in-house", "llama-3-70b", usage)).toBeCloseTo(0.2);
+  });
+
+  test("can replace the defaults", () => {
+    const replaced = getPricingRegistry({ models: [], replaceDefaults: true });
+
+    expect(replaced("openai", "gpt-4o", usage)).toBeUndefined();
+  });
+});
@@ -1,31 +1,158 @@
 import { CompletionUsage } from "openai/resources";
+import {
+  ElelemModelPricing,
+  ElelemPricingConfig,
+  ElelemPricingEntry,
+} from "./types";
 
-export const estimateCost = (usage: CompletionUsage, model: string) => {
-  const computeCost = (
-    pricePerThousandInputTokens: number,
-    pricePerThousandOutputTokens: number,
-  ) => {
-    return (
-      (pricePerThousandInputTokens * usage.prompt_tokens) / 1000 +
-      (pricePerThousandOutputTokens * usage.completion_tokens) / 1000
-    );
+// roughly four characters per token for English text
+export const approximateTokenCount = (text: string) =>
+  Math.ceil(text.length / 4);
+
+// upper bound on a call's usage, assuming the model uses all of max_tokens
+export const estimateWorstCaseUsage = (
+  promptText: string,
+  maxTokens: number | undefined,
+): CompletionUsage => {
+  const prompt_tokens = approximateTokenCount(promptText);
+  const completion_tokens = maxTokens || 0;
+
+  return {
+    prompt_tokens,
+    completion_tokens,
+    total_tokens: prompt_tokens + completion_tokens,
   };
+};
+
+const perMillion = (
+  inputPerMillion: number,
+  outputPerMillion: number,
+  extra: Partial<ElelemModelPricing> = {},
+): ElelemModelPricing => ({ inputPerMillion, outputPerMillion, ...extra });
+
+// cached input is half price and the batch api is half off
+const openAIPricing = (inputPerMillion: number, outputPerMillion: number) =>
+  perMillion(inputPerMillion, outputPerMillion, {
+    cachedInputPerMillion: inputPerMillion / 2,
+    batchDiscount: 0.5,
+  });
+
+// cache reads are a tenth of the input price and the batch api is half off
+const anthropicPricing = (inputPerMillion: number, outputPerMillion: number) =>
+  perMillion(inputPerMillion, outputPerMillion, {
+    cachedInputPerMillion: inputPerMillion / 10,
+    batchDiscount: 0.5,
+  });
+
+// more specific patterns come first since the first match wins
+export const DEFAULT_PRICING: ElelemPricingEntry[] = [
+  // fine-tuned models are named like ft:gpt-4o-mini-2024-07-18:org::id
+  { provider: "openai", model: "ft:gpt-4o-mini", ...openAIPricing(0.3, 1.2) },
+  { provider: "openai", model: "ft:gpt-4o", ...openAIPricing(3.75, 15) },
+  { provider: "openai", model: "ft:gpt-3.5-turbo", ...openAIPricing(3, 6) },
+  { provider: "openai", model: "gpt-4o-mini", ...openAIPricing(0.15, 0.6) },
+  { provider: "openai", model: "gpt-4o-2024-05-13", ...openAIPricing(5, 15) },
+  { provider: "openai", model: "gpt-4o", ...openAIPricing(2.5, 10) },
+  { provider: "openai", model: "gpt-4-turbo", ...openAIPricing(10, 30) },
+  {
+    provider: "openai",
+    model: /^gpt-4-(\d{4}-preview|vision-preview)/,
+    ...openAIPricing(10, 30),
+  },
+  { provider: "openai", model: "gpt-4-32k", ...openAIPricing(60, 120) },
+  { provider: "openai", model: "gpt-4", ...openAIPricing(30, 60) },
+  { provider: "openai", model: "gpt-3.5-turbo-16k", ...openAIPricing(3, 4) },
+  {
+    provider: "openai",
+    model: "gpt-3.5-turbo-instruct",
+    ...openAIPricing(1.5, 2),
+  },
+  { provider: "openai", model: "gpt-3.5-turbo", ...openAIPricing(0.5, 1.5) },
+  { provider: "openai", model: "o1-mini", ...openAIPricing(3, 12) },
+  { provider: "openai", model: "o1", ...openAIPricing(15, 60) },
+  { provider: "openai", model: "o3-mini", ...openAIPricing(1.1, 4.4) },
+  {
+    provider: "anthropic",
+    model: "claude-3-opus",
+    ...anthropicPricing(15, 75),
+  },
+  {
+    provider: "anthropic",
+    model: /^claude-3(-5)?-sonnet/,
+    ...anthropicPricing(3, 15),
+  },
+  {
+    provider: "anthropic",
+    model: "claude-3-5-haiku",
+    ...anthropicPricing(0.8, 4),
+  },
+  {
+    provider: "anthropic",
+    model: "claude-3-haiku",
+    ...anthropicPricing(0.25, 1.25),
+  },
+  { provider: "anthropic", model: "claude-2", ...anthropicPricing(8, 24) },
+  {
+    provider: "anthropic",
+    model: "claude-instant",
+    ...anthropicPricing(0.8, 2.4),
+  },
+  { provider: "cohere", model: "command-r-plus", ...perMillion(2.5, 10) },
+  { provider: "cohere", model: "command-r", ...perMillion(0.15, 0.6) },
+  { provider: "cohere", model: "command-light", ...perMillion(0.3, 0.6) },
+  { provider: "cohere", model: "command", ...perMillion(1, 2) },
+];
+
+const matchesModel = (pattern: string | RegExp, model: string) =>
+  typeof pattern === "string" ? model.startsWith(pattern) : pattern.test(model);
 
-  if (model.startsWith("gpt-4")) {
-    if (model.includes("32k")) {
-      return computeCost(0.06, 0.12);
-    } else {
-      // 8k
-      return computeCost(0.03, 0.06);
-    }
-  } else if (model.startsWith("gpt-3.5-turbo")) {
-    if (model.includes("16k")) {
-      return computeCost(0.003, 0.004);
-    } else {
-      // 4k
-      return computeCost(0.0015, 0.002);
-    }
-  } else {
-    return 0;
-  }
+export const findPricing = (
+  entries: ElelemPricingEntry[],
+  provider: string,
+  model: string | undefined,
+): ElelemModelPricing | undefined =>
+  model === undefined
+    ? undefined
+    : entries.find(
+        (entry) =>
+          entry.provider === provider && matchesModel(entry.model, model),
+      );
+
+export const computeCost = (
+  pricing: ElelemModelPricing,
+  usage: CompletionUsage,
+  batch: boolean,
+) => {
+  const cachedTokens = usage.prompt_tokens_details?.cached_tokens || 0;
+  const inputCost =
+    (usage.prompt_tokens - cachedTokens) * pricing.inputPerMillion +
+    cachedTokens * (pricing.cachedInputPerMillion ?? pricing.inputPerMillion);
+  const outputCost = usage.completion_tokens * pricing.outputPerMillion;
+
+  return (
+    ((inputCost + outputCost) / 1_000_000) *
+    (batch ? pricing.batchDiscount ?? 1 : 1)
+  );
+};
+
+// resolves with undefined for models without a price
+export type PricingRegistry = (
+  provider: string,
+  model: string | undefined,
+  usage: CompletionUsage,
+  batch?: boolean,
+) => number | undefined;
+
+export const getPricingRegistry = (
+  config: ElelemPricingConfig | undefined,
+): PricingRegistry => {
+  const entries = [
+    ...(config?.models || []),
+    ...(config?.replaceDefaults ? [] : DEFAULT_PRICING),
+  ];
+
+  return (provider, model, usage, batch) => {
+    const pricing = findPricing(entries, provider, model);
+    return pricing && computeCost(pricing, usage, batch || false);
+  };
 };
@@ -30,7 +30,7 @@ const redisClient = new Redis(process.env.REDIS!);
 const openAiClient = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
 
 const cohere = new CohereClient({
-    token: process.env.COHERE_API_KEY || "",
+  token: process.env.COHERE_API_KEY || "",
 });
 
 const llm = elelem.init({
@@ -346,6 +346,68 @@ describe("openai", () => {
   }, 20000);
 });
 
+describe("multi-turn", () => {
+  test("few-shot message history", async () => {
+    const { result } = await llm.session(
+      "multi-turn-example",
+      { openai: { model: "gpt-3.5-turbo" } },
+      async (c) => {
+        const { result } = await c.openai(
+          "few-shot-capitol",
+          { max_tokens: 100, temperature: 0 },
+          `What is the capitol of the country provided?`,
+          [
+            { role: "user", content: "France" },
+            { role: "assistant", content: `{"capitol":"Paris"}` },
+            { role: "user", content: "Japan" },
+            { role: "assistant", content: `{"capitol":"Tokyo"}` },
+            { role: "user", content: "USA" },
+          ],
+          capitolResponseSchema,
+          JsonSchemaAndExampleFormatter,
+        );
+
+        return result;
+      },
+    );
+
+    expect(result.capitol).toContain("Washington");
+  }, 20000);
+});
+
+describe("streaming", () => {
+  test("partial results", async () => {
+    const partials: unknown[] = [];
+
+    const { result, usage } = await llm.session(
+      "streaming-example",
+      { openai: { model: "gpt-3.5-turbo" } },
+      async (c) => {
+        const stream = c.openaiStream(
+          "city-description",
+          { max_tokens: 100, temperature: 0 },
+          `Request ${Math.random()}\nFor the given capitol city, return the founding year and an estimate of the population of the city.`,
+          "Washington, D.C.",
+          cityResponseSchema,
+          JsonSchemaAndExampleFormatter,
+        );
+
+        for await (const partial of stream) {
+          partials.push(partial);
+        }
+
+        return (await stream.final()).result;
+      },
+    );
+
+    expect(partials.length).toBeGreaterThan(1);
+    expect(partials[partials.length - 1]).toEqual(result);
+    expect(result.populationEstimate).toBeGreaterThan(500000);
+    expect(usage.total_tokens).toBeGreaterThan(0);
+    expect(usage.cost_usd).toBeGreaterThan(0);
+  }, 20000);
+});
+
 describe("cohere", () => {
   test("e2e example", async () => {
     const { result, usage } = await llm.session(
@@ -387,6 +449,108 @@ describe("cohere", () => {
   }, 20000);
 });
 
+describe("custom provider", () => {
+  test("routes through generate", async () => {
+    const echoLlm = elelem.init({
+      cache: { redis: redisClient },
+      providers: {
+        echo: {
+          formatRequest: (systemPromptWithFormat, userPrompt) => ({
+            systemPromptWithFormat,
+            userPrompt,
+          }),
+          call: async (request: { userPrompt: string }) =>
+            JSON.stringify({ str: request.userPrompt }),
+          extractResponse: (response: string) => response,
+          extractUsage: () => ({
+            prompt_tokens: 10,
+            completion_tokens: 5,
+            total_tokens: 15,
+          }),
+          estimateCost: () => 0.01,
+        },
+      },
+    });
+
+    const inputString = `something-${Math.random()}`;
+
+    const { result, usage } = await echoLlm.session(
+      "custom-provider",
+      {},
+      async (c) => {
+        const { result } = await c.generate(
+          "echo",
+          "echo",
+          {},
+          `Wrap the input string in the json format.`,
+          inputString,
+          strResponseSchema,
+          JsonSchemaAndExampleFormatter,
+        );
+
+        return result;
+      },
+    );
+
+    expect(result.str).toBe(inputString);
+    expect(usage.total_tokens).toBe(15);
+    expect(usage.cost_usd).toBe(0.01);
+  });
+});
+
+describe("single-flight", () => {
+  test("coalesces through the redis lock", async () => {
+    let calls = 0;
+
+    // separate instances don't share the in-process single-flight, like separate processes
+    const instances = [0, 1, 2].map(() =>
+      elelem.init({
+        cache: { redis: redisClient, lock: { pollMilliseconds: 10 } },
+        providers: {
+          echo: {
+            formatRequest: (_systemPromptWithFormat, userPrompt) => userPrompt,
+            call: async (request: string) => {
+              calls += 1;
+              await new Promise((r) => setTimeout(r, 50));
+              return JSON.stringify({ str: request });
+            },
+            extractResponse: (response: string) => response,
+            extractUsage: () => undefined,
+            estimateCost: () => 0,
+          },
+        },
+      }),
+    );
+
+    const inputString = `something-${Math.random()}`;
+
+    const results = await Promise.all(
+      instances.map((instance) =>
+        instance.session("single-flight", {}, async (c) => {
+          const { result } = await c.generate(
+            "echo",
+            "echo",
+            {},
+            `Wrap the input string in the json format.`,
+            inputString,
+            strResponseSchema,
+            JsonSchemaAndExampleFormatter,
+          );
+
+          return result.str;
+        }),
+      ),
+    );
+
+    expect(results.map(({ result }) => result)).toEqual([
+      inputString,
+      inputString,
+      inputString,
+    ]);
+    expect(calls).toBe(1);
+  });
+});
+
 interface AddContext {
   unique: number;
   a: number;
@@ -452,3 +616,99 @@ describe("action", () => {
     expect(counter).toBe(1);
   });
 });
+
+describe("cache invalidation", () => {
+  test("by action id", async () => {
+    let counter = 0;
+    const actionId = `add-${Math.random()}`;
+
+    async function add(ac: AddContext): Promise<number> {
+      counter += 1;
+      return ac.a + ac.b;
+    }
+
+    const runAction = () =>
+      llm.session(
+        "invalidation-test",
+        { openai: { model: "gpt-3.5-turbo" } },
+        async (c) => {
+          return await c.action<AddContext, number>(
+            actionId,
+            { unique: 1, a: 1, b: 2 },
+            JSON.stringify,
+            JSON.parse,
+            add,
+          );
+        },
+      );
+
+    await runAction();
+    await runAction();
+    expect(counter).toBe(1);
+
+    expect(await llm.invalidateCache({ actionId })).toBe(1);
+
+    await runAction();
+    expect(counter).toBe(2);
+  });
+
+  test("keeps the index while entries without a TTL remain", async () => {
+    const actionId = `add-${Math.random()}`;
+
+    const runAction = (unique: number, cacheTtlSeconds?: number) =>
+      llm.session("invalidation-test", {}, async (c) => {
+        return await c.action<AddContext, number>(
+          actionId,
+          { unique, a: 1, b: 2 },
+          JSON.stringify,
+          JSON.parse,
+          async (ac) => ac.a + ac.b,
+          undefined,
+          { cacheTtlSeconds },
+        );
+      });
+
+    await runAction(1, 30);
+    await runAction(2);
+    await runAction(3, 60);
+
+    expect(await redisClient.ttl(`elelem:id:${actionId}`)).toBe(-1);
+    expect(await llm.invalidateCache({ actionId })).toBe(3);
+  });
+
+  test("by namespace", async () => {
+    let counter = 0;
+    const namespace = `elelem-test-${Math.random()}`;
+
+    const namespaced = elelem.init({
+      cache: { redis: redisClient, namespace, ttlSeconds: 60 },
+    });
+
+    async function add(ac: AddContext): Promise<number> {
+      counter += 1;
+      return ac.a + ac.b;
+    }
+
+    const runAction = () =>
+      namespaced.session("invalidation-test", {}, async (c) => {
+        return await c.action<AddContext, number>(
+          "add",
+          { unique: 1, a: 1, b: 2 },
+          JSON.stringify,
+          JSON.parse,
+          add,
+          undefined,
+          { cacheTtlSeconds: 30 },
+        );
+      });
+
+    await runAction();
+    await runAction();
+    expect(counter).toBe(1);
+
+    expect(await namespaced.invalidateCache({ namespace })).toBe(1);
+
+    await runAction();
+    expect(counter).toBe(2);
+  });
+});
@@ -5,130 +5,453 @@ import {
   IBackOffOptions,
 } from "exponential-backoff";
 import {
+  type Context,
   type Exception,
   type Span,
+  context,
   SpanStatusCode,
   trace,
 } from "@opentelemetry/api";
-import { extractLastJSON } from "./helpers";
 import {
+  extractJSON,
+  ExtractJSONOptions,
+  parsePartialJSON,
+  toMessages,
+} from "./helpers";
+import {
+  AnyElelemPromptTemplate,
+  AnyElelemProvider,
+  DeepPartial,
+  ElelemAggregator,
   Elelem,
+  ElelemActionOptions,
+  ElelemBudget,
+  ElelemBudgetExceededError,
   ElelemCache,
+  ElelemCacheMissError,
+  ElelemCacheEntryOptions,
+  ElelemCacheKeyConfig,
+  ElelemCachePolicy,
+  ElelemCallRecord,
   ElelemConfig,
   ElelemConfigAttributes,
+  ElelemMapResult,
   ElelemContext,
+  ElelemEnsembleMember,
+  ElelemFallbackEntry,
   ElelemFormatter,
+  ElelemGenerateOptions,
+  ElelemMessage,
+  ElelemOutput,
+  ElelemPromptTemplateInfo,
+  ElelemProvider,
+  ElelemStream,
   ElelemUsage,
+  ElelemUsageBreakdown,
   ElelemError,
+  ElelemOutputMode,
+  ElelemRefusalError,
   Cohere,
 } from "./types";
-import { estimateCost } from "./costs";
-import { getCache } from "./caching";
-import { setElelemConfigAttributes, setUsageAttributes } from "./tracing";
+import {
+  approximateTokenCount,
+  estimateWorstCaseUsage,
+  getPricingRegistry,
+  PricingRegistry,
+} from "./costs";
+import {
+  buildActionCacheKey,
+  buildGenerationCacheKey,
+  CacheLock,
+  getCache,
+  getCacheLock,
+  SingleFlight,
+  singleFlight,
+} from "./caching";
+import { getRateLimiter, RateLimiter } from "./ratelimiting";
+import {
+  setElelemConfigAttributes,
+  setTemplateAttributes,
+  setUsageAttributes,
+} from "./tracing";
 import { ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
+import { CompletionUsage } from "openai/resources";
 import { ZodType } from "zod";
-import {GenerateRequest} from "cohere-ai/api";
-import {CohereClient} from "cohere-ai";
+import { anthropicProvider, cohereProvider, openAIProvider } from "./providers";
 
 function getTracer() {
   return trace.getTracer("elelem", "0.0.1");
 }
 
-const callOpenAIApi = async (
-  openai: OpenAI,
+const emptyUsage = (): ElelemUsage => ({
+  completion_tokens: 0,
+  prompt_tokens: 0,
+  total_tokens: 0,
+  cost_usd: 0,
+});
+
+const addUsage = (
+  target: ElelemUsage,
+  usage: CompletionUsage,
+  costUsd: number,
+) => {
+  target.completion_tokens += usage.completion_tokens;
+  target.prompt_tokens += usage.prompt_tokens;
+  target.total_tokens += usage.total_tokens;
+  target.cost_usd += costUsd;
+};
+
+const userPromptAttribute = (userPrompt: string | ElelemMessage[]): string => {
+  if (typeof userPrompt === "string") {
+    return userPrompt;
+  } else {
+    return JSON.stringify(userPrompt);
+  }
+};
+
+// usage so far plus the worst case of calls still in flight, checked against a session or per-call budget
+interface BudgetTracker {
+  scope: "session" | "call";
+  budget: ElelemBudget;
+  usage: ElelemUsage;
+  pending: ElelemUsage;
+  // set when nothing else keeps usage up to date, e.g. for one per-call budget shared by a fallback chain
+  tracksUsage?: boolean;
+}
+
+const estimateCallUsage = (
   systemPromptWithFormat: string,
-  userPrompt: string,
-  modelOptions: Omit<ChatCompletionCreateParamsNonStreaming, "messages">,
-  localAttemptUsage: ElelemUsage,
-  localUsage: ElelemUsage,
-  sessionUsage: ElelemUsage,
-): Promise<string> => {
-  return await getTracer().startActiveSpan(`openai-call`, async (span) => {
-    span.setAttribute("openai.prompt.system", systemPromptWithFormat);
-    span.setAttribute("openai.prompt.user", userPrompt);
+  userPrompt: string | ElelemMessage[],
+  modelOptions: object,
+  estimateCallCost: (usage: CompletionUsage) => number,
+): ElelemUsage => {
+  const usage = estimateWorstCaseUsage(
+    `${systemPromptWithFormat}\n${userPromptAttribute(userPrompt)}`,
+    (modelOptions as { max_tokens?: number }).max_tokens,
+  );
 
-    const chat = await openai.chat.completions.create({
-      ...modelOptions,
-      messages: [
-        { role: "system", content: systemPromptWithFormat },
-        { role: "user", content: userPrompt },
-      ],
-    });
+  return { ...usage, cost_usd: estimateCallCost(usage) };
+};
 
-    const choice = chat.choices[0];
+// throws if the call could exceed a budget, otherwise holds its estimate until the returned release is called
+const reserveBudget = (
+  trackers: BudgetTracker[],
+  estimate: ElelemUsage,
+): (() => void) => {
+  for (const { scope, budget, usage, pending } of trackers) {
+    if (
+      budget.maxCostUsd !== undefined &&
+      usage.cost_usd + pending.cost_usd + estimate.cost_usd > budget.maxCostUsd
+    ) {
+      throw new ElelemBudgetExceededError(
+        scope,
+        "maxCostUsd",
+        budget.maxCostUsd,
+        estimate,
+        usage,
+      );
+    }
 
     if (
-      choice !== undefined &&
-      choice.message !== undefined &&
-      choice.message.content !== undefined
+      budget.maxTotalTokens !== undefined &&
+      usage.total_tokens + pending.total_tokens + estimate.total_tokens >
+        budget.maxTotalTokens
     ) {
-      const response = choice.message.content;
+      throw new ElelemBudgetExceededError(
+        scope,
+        "maxTotalTokens",
+        budget.maxTotalTokens,
+        estimate,
+        usage,
+      );
+    }
+  }
+
+  for (const { pending } of trackers) {
+    addUsage(pending, estimate, estimate.cost_usd);
+  }
+
+  return () => {
+    for (const { pending } of trackers) {
+      addUsage(
+        pending,
+        {
+          completion_tokens: -estimate.completion_tokens,
+          prompt_tokens: -estimate.prompt_tokens,
+          total_tokens: -estimate.total_tokens,
+        },
+        -estimate.cost_usd,
+      );
+    }
+  };
+};
+
+// prefers the provider's own estimate, and flags models the pricing registry doesn't know on the span
+const priceUsage = <ModelOpt extends object>(
+  pricing: PricingRegistry,
+  providerName: string,
+  provider: Pick<
+    ElelemProvider<ModelOpt, unknown, unknown>,
+    "estimateCost" | "batch"
+  >,
+  usage: CompletionUsage,
+  modelOptions: ModelOpt,
+  span?: Span,
+): number => {
+  if (provider.estimateCost !== undefined) {
+    return provider.estimateCost(usage, modelOptions);
+  }
+
+  const model = (modelOptions as { model?: string }).model;
+  const costUsd = pricing(providerName, model, usage, provider.batch);
+
+  if (costUsd === undefined) {
+    span?.setAttribute(
+      "elelem.pricing.unknown_model",
+      `${providerName}:${model || "null"}`,
+    );
+    return 0;
+  }
+
+  return costUsd;
+};
+
+// records the time spent waiting for the rate limiter as its own span
+const waitForRateLimit = async (
+  rateLimiter: RateLimiter | undefined,
+  providerName: string,
+  modelOptions: object,
+  estimatedTokens: number,
+  parentContext: Context,
+): Promise<(usedTokens: number | undefined) => Promise<void>> => {
+  if (rateLimiter === undefined) {
+    return async () => {
+      // no-op
+    };
+  }
 
-      if (response === null) {
+  const model = (modelOptions as { model?: string }).model;
+
+  return await getTracer().startActiveSpan(
+    "rate-limit-wait",
+    {},
+    parentContext,
+    async (span) => {
+      try {
+        span.setAttribute("elelem.rate_limit.provider", providerName);
+        span.setAttribute("elelem.rate_limit.model", model || "null");
+        return await rateLimiter(providerName, model, estimatedTokens);
+      } catch (error) {
+        span.recordException(error as Exception);
+        span.setStatus({ code: SpanStatusCode.ERROR });
+        throw error;
+      } finally {
         span.end();
-        throw new Error("Null response from api!");
       }
+    },
+  );
+};
+
+const callProvider = async <
+  ModelOpt extends object,
+  Request,
+  Response,
+  Extracted extends string | string[],
+>(
+  providerName: string,
+  provider: ElelemProvider<ModelOpt, Request, Response>,
+  systemPromptWithFormat: string,
+  userPrompt: string | ElelemMessage[],
+  modelOptions: ModelOpt,
+  output: ElelemOutput,
+  localAttemptUsage: ElelemUsage,
+  localUsage: ElelemUsage,
+  sessionUsage: ElelemUsage,
+  budgets: BudgetTracker[],
+  rateLimiter: RateLimiter | undefined,
+  pricing: PricingRegistry,
+  extractResponse: (response: Response, output: ElelemOutput) => Extracted,
+): Promise<Extracted> => {
+  return await getTracer().startActiveSpan(
+    `${providerName}-call`,
+    async (span) => {
+      let releaseBudget: (() => void) | undefined;
+      let releaseRateLimit:
+        | ((usedTokens: number | undefined) => Promise<void>)
+        | undefined;
+      let usage: CompletionUsage | undefined;
 
-      if (chat.usage !== undefined) {
-        const costUsd = estimateCost(chat.usage, modelOptions.model);
+      try {
+        span.setAttribute(
+          `${providerName}.prompt.system`,
+          systemPromptWithFormat,
+        );
+        span.setAttribute(
+          `${providerName}.prompt.user`,
+          userPromptAttribute(userPrompt),
+        );
 
-        setUsageAttributes(span, { cost_usd: costUsd, ...chat.usage });
+        const estimate = estimateCallUsage(
+          systemPromptWithFormat,
+          userPrompt,
+          modelOptions,
+          (usage) =>
+            priceUsage(pricing, providerName, provider, usage, modelOptions),
+        );
 
-        localAttemptUsage.completion_tokens += chat.usage.completion_tokens;
-        localAttemptUsage.prompt_tokens += chat.usage.prompt_tokens;
-        localAttemptUsage.total_tokens += chat.usage.total_tokens;
-        localAttemptUsage.cost_usd += costUsd;
+        releaseBudget = reserveBudget(budgets, estimate);
 
-        localUsage.completion_tokens += chat.usage.completion_tokens;
-        localUsage.prompt_tokens += chat.usage.prompt_tokens;
-        localUsage.total_tokens += chat.usage.total_tokens;
-        localUsage.cost_usd += costUsd;
+        releaseRateLimit = await waitForRateLimit(
+          rateLimiter,
+          providerName,
+          modelOptions,
+          estimate.total_tokens,
+          context.active(),
+        );
 
-        sessionUsage.completion_tokens += chat.usage.completion_tokens;
-        sessionUsage.prompt_tokens += chat.usage.prompt_tokens;
-        sessionUsage.total_tokens += chat.usage.total_tokens;
-        sessionUsage.cost_usd += costUsd;
-      }
+        const apiResponse = await provider.call(
+          provider.formatRequest(
+            systemPromptWithFormat,
+            userPrompt,
+            modelOptions,
+            output,
+          ),
+        );
 
-      span.setAttribute("openai.response", response);
+        usage = provider.extractUsage(apiResponse);
 
-      span.end();
-      return response;
-    } else {
-      span.end();
-      throw new Error("No chat response from api!");
-    }
-  });
+        if (usage !== undefined) {
+          const costUsd = priceUsage(
+            pricing,
+            providerName,
+            provider,
+            usage,
+            modelOptions,
+            span,
+          );
+
+          setUsageAttributes(span, { cost_usd: costUsd, ...usage });
+
+          addUsage(localAttemptUsage, usage, costUsd);
+          addUsage(localUsage, usage, costUsd);
+          addUsage(sessionUsage, usage, costUsd);
+
+          for (const budget of budgets) {
+            if (budget.tracksUsage) {
+              addUsage(budget.usage, usage, costUsd);
+            }
+          }
+        }
+
+        // extracted after recording usage since tokens are billed even when there's no usable response
+        const response = extractResponse(apiResponse, output);
+
+        span.setAttribute(`${providerName}.response`, response);
+
+        return response;
+      } finally {
+        releaseBudget?.();
+        await releaseRateLimit?.(usage?.total_tokens);
+        span.end();
+      }
+    },
+  );
 };
 
-const callCohereApi = async (
-  cohere: CohereClient,
+// yields the content deltas as they arrive; the span is parented explicitly since
+// the generator body runs in whatever context the consumer iterates from
+async function* callOpenAIStreamApi(
+  openai: OpenAI,
   systemPromptWithFormat: string,
-  userPrompt: string,
-  modelOptions: Omit<GenerateRequest, "prompt"> & { max_tokens: number },
-): Promise<string> => {
-  return await getTracer().startActiveSpan(`cohere-call`, async (span) => {
-    span.setAttribute("cohere.prompt.system", systemPromptWithFormat);
-    span.setAttribute("cohere.prompt.user", userPrompt);
-
-    const response = await cohere.generate({
+  userPrompt: string | ElelemMessage[],
+  modelOptions: Omit<ChatCompletionCreateParamsNonStreaming, "messages">,
+  localUsage: ElelemUsage,
+  sessionUsage: ElelemUsage,
+  budgets: BudgetTracker[],
+  rateLimiter: RateLimiter | undefined,
+  pricing: PricingRegistry,
+  parentContext: Context,
+): AsyncGenerator<string> {
+  const span = getTracer().startSpan(
+    `openai-stream-call`,
+    undefined,
+    parentContext,
+  );
+
+  let response = "";
+  let releaseBudget: (() => void) | undefined;
+  let releaseRateLimit:
+    | ((usedTokens: number | undefined) => Promise<void>)
+    | undefined;
+  let usage: CompletionUsage | undefined;
+
+  try {
+    span.setAttribute("openai.prompt.system", systemPromptWithFormat);
+    span.setAttribute("openai.prompt.user", userPromptAttribute(userPrompt));
+
+    const estimate = estimateCallUsage(
+      systemPromptWithFormat,
+      userPrompt,
+      modelOptions,
+      (usage) => priceUsage(pricing, "openai", {}, usage, modelOptions),
+    );
+
+    releaseBudget = reserveBudget(budgets, estimate);
+
+    releaseRateLimit = await waitForRateLimit(
+      rateLimiter,
+      "openai",
+      modelOptions,
+      estimate.total_tokens,
+      trace.setSpan(parentContext, span),
+    );
+
+    const stream = await openai.chat.completions.create({
       ...modelOptions,
-      prompt: `${systemPromptWithFormat}\n${userPrompt}`,
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: [
+        { role: "system", content: systemPromptWithFormat },
+        ...toMessages(userPrompt),
+      ],
     });
 
-    if (response.generations.length === 0) {
-      span.end();
-      throw new Error("No generation from API!");
-    }
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+
+      if (delta) {
+        response += delta;
+        yield delta;
+      }
 
-    // todo: add cost calculation once available if cohere supports it in the future
+      if (chunk.usage) {
+        usage = chunk.usage;
+        const costUsd = priceUsage(
+          pricing,
+          "openai",
+          {},
+          chunk.usage,
+          modelOptions,
+          span,
+        );
 
-    span.setAttribute("cohere.response", response.generations[0].text);
+        setUsageAttributes(span, { cost_usd: costUsd, ...chunk.usage });
 
+        addUsage(localUsage, chunk.usage, costUsd);
+        addUsage(sessionUsage, chunk.usage, costUsd);
+      }
+    }
+  } catch (error) {
+    span.recordException(error as Exception);
+    span.setStatus({ code: SpanStatusCode.ERROR });
+    throw error;
+  } finally {
+    releaseBudget?.();
+    await releaseRateLimit?.(usage?.total_tokens);
+    span.setAttribute("openai.response", response);
     span.end();
-    return response.generations[0].text;
-  });
-};
+  }
+}
 
 async function withRetries<T>(
   spanName: string,
@@ -153,7 +476,12 @@ async function withRetries<T>(
                 span.recordException(error as Exception);
                 span.setStatus({ code: SpanStatusCode.ERROR });
 
-                if ((error as Error).message.startsWith("ELELEM_NO_RETRY")) {
+                if (
+                  (error as Error).message.startsWith("ELELEM_NO_RETRY") ||
+                  error instanceof ElelemRefusalError ||
+                  error instanceof ElelemBudgetExceededError ||
+                  error instanceof ElelemCacheMissError
+                ) {
                   nonRetryErr = error as Error;
                 }
 
@@ -176,217 +504,1528 @@ async function withRetries<T>(
   });
 }
 
+async function readCache(
+  cache: ElelemCache,
+  cacheKey: object,
+  cacheOptions: ElelemCacheEntryOptions,
+  backoffOptions: Partial<IBackOffOptions> | undefined,
+): Promise<string | null> {
+  return await withRetries(
+    "cache-read",
+    async (cacheReadSpan) => {
+      const cacheResult = await cache.read(cacheKey, cacheOptions);
+      cacheReadSpan.setAttribute("elelem.cache.hit", cacheResult !== null);
+      cacheReadSpan.end();
+      return cacheResult;
+    },
+    backoffOptions || { numOfAttempts: 3 },
+  );
+}
+
+const readsCache = (cachePolicy: ElelemCachePolicy) =>
+  cachePolicy === "default" ||
+  cachePolicy === "read-only" ||
+  cachePolicy === "cache-only";
+
+const writesCache = (cachePolicy: ElelemCachePolicy) =>
+  cachePolicy === "default" || cachePolicy === "refresh";
+
+async function acquireCacheLock(
+  lock: CacheLock,
+  cacheKey: object,
+): Promise<() => Promise<void>> {
+  return await getTracer().startActiveSpan("cache-lock", async (lockSpan) => {
+    try {
+      return await lock(cacheKey);
+    } catch (error) {
+      lockSpan.recordException(error as Exception);
+      lockSpan.setStatus({ code: SpanStatusCode.ERROR });
+      throw error;
+    } finally {
+      lockSpan.end();
+    }
+  });
+}
+
+async function writeCache(
+  cache: ElelemCache,
+  cacheKey: object,
+  value: string,
+  cacheOptions: ElelemCacheEntryOptions,
+  backoffOptions: Partial<IBackOffOptions> | undefined,
+): Promise<void> {
+  await withRetries(
+    "cache-write",
+    async (cacheWriteSpan) => {
+      await cache.write(cacheKey, value, cacheOptions);
+      cacheWriteSpan.end();
+    },
+    backoffOptions || { numOfAttempts: 3 },
+  );
+}
+
+// retrying the exact same request at temperature 0 will generally produce the same invalid output
+const isDeterministic = (combinedOptions: object) =>
+  "temperature" in combinedOptions && combinedOptions.temperature === 0;
+
+const toRepairMessages = (response: string, error: Error): ElelemMessage[] => [
+  { role: "assistant", content: response },
+  {
+    role: "user",
+    content: `Your previous response could not be used: ${error.message}\nRespond again with the corrected output in the required format.`,
+  },
+];
+
+// tool arguments and structured outputs are the JSON itself, so they're parsed as is rather than scanned or repaired
+const toExtraction = (
+  outputMode: ElelemOutputMode,
+  options: ElelemGenerateOptions,
+): ExtractJSONOptions =>
+  outputMode === "text"
+    ? { strategy: options.extraction, lenient: options.lenient }
+    : { strategy: "raw" };
+
+async function parseResponse<T>(
+  response: string | null,
+  schema: ZodType<T>,
+  extraction: ExtractJSONOptions,
+  noRetry: boolean,
+  onValid: (extractedJson: string) => Promise<void>,
+  onExtracted: (extractedJson: string | null) => void,
+): Promise<T> {
+  return await getTracer().startActiveSpan(
+    `parse-response`,
+    async (parseSpan) => {
+      try {
+        if (response === null) {
+          throw new Error("Null response");
+        }
+
+        const extractedJson = extractJSON(response, {
+          ...extraction,
+          accepts: (value) => schema.safeParse(value).success,
+        });
+        onExtracted(extractedJson);
+
+        if (extractedJson === null) {
+          throw new Error("No JSON available in response");
+        }
+
+        let json;
+
+        try {
+          json = JSON.parse(extractedJson);
+        } catch (e: any) {
+          if (noRetry) {
+            throw new Error(`ELELEM_NO_RETRY ${e.message}`);
+          } else {
+            throw e;
+          }
+        }
+
+        const parsed = schema.safeParse(json);
+
+        if (!parsed.success) {
+          if (noRetry) {
+            throw new Error(
+              `ELELEM_NO_RETRY Invalid schema returned from LLM: ${parsed.error.toString()}`,
+            );
+          } else {
+            throw new Error(
+              `Invalid schema returned from LLM: ${parsed.error.toString()}`,
+            );
+          }
+        } else {
+          await onValid(extractedJson);
+
+          return parsed.data;
+        }
+      } catch (error) {
+        parseSpan.recordException(error as Exception);
+        parseSpan.setStatus({ code: SpanStatusCode.ERROR });
+        throw error;
+      } finally {
+        parseSpan.end();
+      }
+    },
+  );
+}
+
+// what generate reports about each attempt, before the session adds provider details
+interface GenerateAttempt {
+  chatId: string;
+  attempt: number;
+  cacheHit: boolean;
+  succeeded: boolean;
+  usage: ElelemUsage;
+  systemPromptWithFormat: string;
+  userPrompt: string | ElelemMessage[];
+  response: string | null;
+}
+
+// the other ensemble members would run into the same budget or cache policy
+const isUnrecoverable = (
+  e: unknown,
+): e is ElelemBudgetExceededError | ElelemCacheMissError =>
+  e instanceof ElelemBudgetExceededError || e instanceof ElelemCacheMissError;
+
+// rebuilds the error with the usage of the enclosing scope, keeping refusals, budget errors, and cache misses distinguishable
+const withErrorUsage = (e: unknown, usage: ElelemUsage): ElelemError => {
+  if (e instanceof ElelemRefusalError) {
+    return new ElelemRefusalError(e.refusal, usage);
+  }
+
+  if (e instanceof ElelemCacheMissError) {
+    return new ElelemCacheMissError(e.id, usage);
+  }
+
+  if (e instanceof ElelemBudgetExceededError) {
+    return new ElelemBudgetExceededError(
+      e.scope,
+      e.limit,
+      e.max,
+      e.estimate,
+      usage,
+    );
+  }
+
+  return new ElelemError((e as Error).message, usage);
+};
+
+// renders templates, keeping what the cache and spans need to trace a generation back to its template
+const resolvePrompt = (
+  systemPrompt: string | AnyElelemPromptTemplate,
+  userPrompt: unknown,
+): {
+  systemPrompt: string;
+  userPrompt: string | ElelemMessage[];
+  template?: ElelemPromptTemplateInfo;
+} =>
+  typeof systemPrompt === "string"
+    ? { systemPrompt, userPrompt: userPrompt as string | ElelemMessage[] }
+    : {
+        ...systemPrompt.render(userPrompt),
+        template: {
+          name: systemPrompt.name,
+          version: systemPrompt.version,
+          variables: userPrompt,
+        },
+      };
+
+const toBreakdown = (calls: ElelemCallRecord[]): ElelemUsageBreakdown => ({
+  calls: [...calls],
+  savedUsd: calls.reduce((total, call) => total + call.savedUsd, 0),
+  wastedUsd: calls
+    .filter((call) => !call.succeeded)
+    .reduce((total, call) => total + call.usage.cost_usd, 0),
+});
+
 async function generate<T, ModelOpt extends object>(
+  providerName: string,
   chatId: string,
   combinedOptions: ModelOpt,
   systemPrompt: string,
-  userPrompt: string,
+  userPrompt: string | ElelemMessage[],
   schema: ZodType<T>,
   formatter: ElelemFormatter,
+  options: ElelemGenerateOptions,
   backoffOptions: Partial<IBackOffOptions> | undefined,
   cache: ElelemCache,
+  lock: CacheLock,
+  flights: SingleFlight,
+  keyConfig: ElelemCacheKeyConfig,
   apiCaller: (
     systemPromptWithFormat: string,
-    userPrompt: string,
+    userPrompt: string | ElelemMessage[],
     combinedOptions: ModelOpt,
     generateAttemptUsage: ElelemUsage,
     generateUsage: ElelemUsage,
   ) => Promise<string>,
+  recordAttempt: (attempt: GenerateAttempt) => void,
+  template?: ElelemPromptTemplateInfo,
 ): Promise<{ result: T; usage: ElelemUsage }> {
-  const generateUsage: ElelemUsage = {
-    completion_tokens: 0,
-    prompt_tokens: 0,
-    total_tokens: 0,
-    cost_usd: 0,
+  const generateUsage = emptyUsage();
+  const outputMode = options.outputMode || "text";
+  const repair = options.repair || false;
+  const cachePolicy = options.cachePolicy || "default";
+  const cacheOptions: ElelemCacheEntryOptions = {
+    id: chatId,
+    ttlSeconds: options.cacheTtlSeconds,
   };
 
-  return await withRetries(
+  // the schema is sent with the request itself outside of text mode
+  const systemPromptWithFormat =
+    outputMode === "text"
+      ? `${systemPrompt}\n${formatter(schema)}`
+      : systemPrompt;
+
+  const cacheKey = buildGenerationCacheKey(keyConfig, {
+    provider: providerName,
     chatId,
-    async (generateAttemptSpan, generateSpan) => {
-      let cacheHit = false;
-      let error: string | null = null;
-      let response: string | null = null;
-      let extractedJson: string | null = null;
+    systemPrompt,
+    systemPromptWithFormat,
+    formatter,
+    userPrompt,
+    modelOptions: combinedOptions,
+    schema,
+    outputMode,
+    promptVersion: options.promptVersion,
+    template,
+  });
 
-      const systemPromptWithFormat = `${systemPrompt}\n${formatter(schema)}`;
+  // follow-up turns with the last invalid response and why it was rejected
+  let repairMessages: ElelemMessage[] = [];
+  let repairCount = 0;
+  let attempt = 0;
 
-      const generateAttemptUsage: ElelemUsage = {
-        completion_tokens: 0,
-        prompt_tokens: 0,
-        total_tokens: 0,
-        cost_usd: 0,
-      };
+  const generateWithRetries = () =>
+    withRetries(
+      chatId,
+      async (generateAttemptSpan, generateSpan) => {
+        let cacheHit = false;
+        let error: string | null = null;
+        let response: string | null = null;
+        let extractedJson: string | null = null;
 
-      try {
-        const cacheKey = {
-          systemPromptWithFormat,
-          userPrompt,
-          combinedOptions,
-        };
+        const generateAttemptUsage = emptyUsage();
 
-        const cached = await withRetries(
-          "cache-read",
-          async (cacheReadSpan) => {
-            const cacheResult = await cache.read(cacheKey);
-            cacheReadSpan.setAttribute(
-              "elelem.cache.hit",
-              cacheResult !== null,
-            );
-            cacheReadSpan.end();
-            return cacheResult;
-          },
-          backoffOptions || { numOfAttempts: 3 },
-        );
+        const isValidCacheValue = (value: string | null): value is string =>
+          value !== null && schema.safeParse(JSON.parse(value)).success;
 
-        cacheHit =
-          cached !== null && schema.safeParse(JSON.parse(cached)).success;
-        response = cacheHit
-          ? cached
-          : await apiCaller(
-              systemPromptWithFormat,
-              userPrompt,
-              combinedOptions,
-              generateAttemptUsage,
-              generateUsage,
-            );
+        let releaseLock: (() => Promise<void>) | undefined;
 
-        return await getTracer().startActiveSpan(
-          `parse-response`,
-          async (parseSpan) => {
-            try {
-              if (response === null) {
-                throw new Error("Null response");
-              }
+        try {
+          let cached = readsCache(cachePolicy)
+            ? await readCache(cache, cacheKey, cacheOptions, backoffOptions)
+            : null;
 
-              extractedJson = extractLastJSON(response);
+          // other processes can only pick up the result through the cache
+          if (cachePolicy === "default" && !isValidCacheValue(cached)) {
+            releaseLock = await acquireCacheLock(lock, cacheKey);
 
-              if (extractedJson === null) {
-                throw new Error("No JSON available in response");
-              }
+            // an identical call may have finished generating while this one waited
+            cached = await readCache(
+              cache,
+              cacheKey,
+              cacheOptions,
+              backoffOptions,
+            );
+          }
 
-              let json;
+          cacheHit = isValidCacheValue(cached);
 
-              try {
-                json = JSON.parse(extractedJson);
-              } catch (e: any) {
-                if (
-                  "temperature" in combinedOptions &&
-                  combinedOptions.temperature === 0
-                ) {
-                  throw new Error(`ELELEM_NO_RETRY ${e.message}`);
-                } else {
-                  throw e;
-                }
-              }
+          if (!cacheHit && cachePolicy === "cache-only") {
+            throw new ElelemCacheMissError(chatId);
+          }
 
-              const parsed = schema.safeParse(json);
+          if (!cacheHit && repairMessages.length > 0) {
+            repairCount++;
+          }
 
-              if (!parsed.success) {
-                if (
-                  "temperature" in combinedOptions &&
-                  combinedOptions.temperature === 0
-                ) {
-                  throw new Error(
-                    `ELELEM_NO_RETRY Invalid schema returned from LLM: ${parsed.error.toString()}`,
-                  );
-                } else {
-                  throw new Error(
-                    `Invalid schema returned from LLM: ${parsed.error.toString()}`,
-                  );
-                }
-              } else {
-                const nonNullJson: string = extractedJson;
-
-                if (!cacheHit) {
-                  await withRetries(
-                    "cache-write",
-                    async (cacheReadSpan) => {
-                      await cache.write(cacheKey, nonNullJson);
-                      cacheReadSpan.end();
-                    },
-                    backoffOptions || { numOfAttempts: 3 },
-                  );
-                }
+          response = cacheHit
+            ? cached
+            : await apiCaller(
+                systemPromptWithFormat,
+                repairMessages.length > 0
+                  ? [...toMessages(userPrompt), ...repairMessages]
+                  : userPrompt,
+                combinedOptions,
+                generateAttemptUsage,
+                generateUsage,
+              );
 
-                return {
-                  result: parsed.data,
+          const invalidResponse = response;
 
-                  // should represent total across all attempts
-                  usage: generateUsage,
-                };
+          const result = await parseResponse(
+            response,
+            schema,
+            toExtraction(outputMode, options),
+            !repair && isDeterministic(combinedOptions),
+            async (json) => {
+              if (!cacheHit && writesCache(cachePolicy)) {
+                await writeCache(
+                  cache,
+                  cacheKey,
+                  json,
+                  cacheOptions,
+                  backoffOptions,
+                );
               }
-            } catch (error) {
-              parseSpan.recordException(error as Exception);
-              parseSpan.setStatus({ code: SpanStatusCode.ERROR });
-              throw error;
-            } finally {
-              parseSpan.end();
+            },
+            (json) => (extractedJson = json),
+          ).catch((e) => {
+            if (repair && invalidResponse !== null) {
+              repairMessages = toRepairMessages(invalidResponse, e as Error);
             }
-          },
-        );
-      } catch (e) {
-        generateAttemptSpan.recordException(e as Error);
-        generateAttemptSpan.setStatus({
-          code: SpanStatusCode.ERROR,
-        });
-        error = String(e);
-        const message = (e as Error).message;
-        throw new ElelemError(
-          message,
+
+            throw e;
+          });
+
+          return {
+            result,
+
+            // should represent total across all attempts
+            usage: generateUsage,
+          };
+        } catch (e) {
+          generateAttemptSpan.recordException(e as Error);
+          generateAttemptSpan.setStatus({
+            code: SpanStatusCode.ERROR,
+          });
+          error = String(e);
+
           // should represent total so far across attempts
-          generateUsage,
-        );
-      } finally {
-        const attributes: ElelemConfigAttributes = {
-          "elelem.cache.hit": cacheHit,
-          "elelem.error": error || "null",
-          "openai.prompt.options": JSON.stringify(combinedOptions),
-          "openai.prompt.system": systemPromptWithFormat,
-          "openai.prompt.user": userPrompt,
-          "openai.prompt.response": response || "null",
-          "openai.prompt.response.extracted": extractedJson || "null",
-        };
+          throw withErrorUsage(e, generateUsage);
+        } finally {
+          await releaseLock?.();
 
-        // handle attempt attributes
-        setElelemConfigAttributes(generateAttemptSpan, attributes);
-        setUsageAttributes(generateAttemptSpan, generateAttemptUsage);
+          const attributes: ElelemConfigAttributes = {
+            "elelem.cache.hit": cacheHit,
+            "elelem.cache.policy": cachePolicy,
+            "elelem.error": error || "null",
+            "elelem.output_mode": outputMode,
+            "elelem.repair.count": repairCount,
+            "openai.prompt.options": JSON.stringify(combinedOptions),
+            "openai.prompt.system": systemPromptWithFormat,
+            "openai.prompt.user": userPromptAttribute(userPrompt),
+            "openai.prompt.response": response || "null",
+            "openai.prompt.response.extracted": extractedJson || "null",
+          };
 
-        // handle the parent attributes each attempt
-        setElelemConfigAttributes(generateSpan, attributes);
-        setUsageAttributes(generateSpan, generateUsage);
+          // handle attempt attributes
+          setElelemConfigAttributes(generateAttemptSpan, attributes);
+          setUsageAttributes(generateAttemptSpan, generateAttemptUsage);
 
-        generateAttemptSpan.end();
-      }
-    },
-    backoffOptions || { numOfAttempts: 3 },
-  );
-}
+          // handle the parent attributes each attempt
+          setElelemConfigAttributes(generateSpan, attributes);
+          setUsageAttributes(generateSpan, generateUsage);
 
-export const elelem: Elelem = {
-  init: (config: ElelemConfig) => {
-    const { backoffOptions, cache: cacheConfig, openai, cohere } = config;
+          if (template !== undefined) {
+            setTemplateAttributes(generateAttemptSpan, template);
+            setTemplateAttributes(generateSpan, template);
+          }
 
-    const cache: ElelemCache = getCache(cacheConfig || {});
+          recordAttempt({
+            chatId,
+            attempt: attempt++,
+            cacheHit,
+            succeeded: error === null,
+            usage: { ...generateAttemptUsage },
+            systemPromptWithFormat,
+            userPrompt,
+            response,
+          });
 
-    return {
-      session: async (sessionId, defaultModelOptions, contextFunction) => {
-        const sessionUsage: ElelemUsage = {
-          completion_tokens: 0,
-          prompt_tokens: 0,
-          total_tokens: 0,
-          cost_usd: 0,
-        };
+          generateAttemptSpan.end();
+        }
+      },
+      backoffOptions || { numOfAttempts: 3 },
+    );
 
-        return getTracer().startActiveSpan(sessionId, async (sessionSpan) => {
+  // other policies ask for a fresh generation or never generate
+  if (cachePolicy !== "default") {
+    return await generateWithRetries();
+  }
+
+  // identical generations in flight in this process share the first one's retries and outcome,
+  // keyed on the provider too since custom and legacy cache keys may leave it out
+  const { promise, shared } = flights(
+    { provider: providerName, cacheKey },
+    generateWithRetries,
+  );
+
+  if (!shared) {
+    return await promise;
+  }
+
+  // like a cache hit, the usage is only counted by the caller that generated
+  try {
+    const { result } = await promise;
+    return { result, usage: emptyUsage() };
+  } catch (e) {
+    throw withErrorUsage(e, emptyUsage());
+  }
+}
+
+// counterpart of generate for providers that return several samples per request; invalid samples are
+// dropped instead of retried, and nothing is cached since identical requests would read back the same samples
+async function generateSamples<T, ModelOpt extends object>(
+  chatId: string,
+  combinedOptions: ModelOpt,
+  systemPrompt: string,
+  userPrompt: string | ElelemMessage[],
+  schema: ZodType<T>,
+  formatter: ElelemFormatter,
+  options: ElelemGenerateOptions,
+  backoffOptions: Partial<IBackOffOptions> | undefined,
+  apiCaller: (
+    systemPromptWithFormat: string,
+    userPrompt: string | ElelemMessage[],
+    combinedOptions: ModelOpt,
+    generateAttemptUsage: ElelemUsage,
+    generateUsage: ElelemUsage,
+  ) => Promise<string[]>,
+  recordAttempt: (attempt: GenerateAttempt) => void,
+): Promise<{ results: T[]; usage: ElelemUsage }> {
+  const generateUsage = emptyUsage();
+  const outputMode = options.outputMode || "text";
+  const systemPromptWithFormat =
+    outputMode === "text"
+      ? `${systemPrompt}\n${formatter(schema)}`
+      : systemPrompt;
+  let attempt = 0;
+
+  return await withRetries(
+    chatId,
+    async (generateAttemptSpan, generateSpan) => {
+      let error: string | null = null;
+      let responses: string[] = [];
+      const results: T[] = [];
+      const generateAttemptUsage = emptyUsage();
+
+      try {
+        responses = await apiCaller(
+          systemPromptWithFormat,
+          userPrompt,
+          combinedOptions,
+          generateAttemptUsage,
+          generateUsage,
+        );
+
+        for (const response of responses) {
+          await parseResponse(
+            response,
+            schema,
+            toExtraction(outputMode, options),
+            false,
+            async () => {},
+            () => {},
+          ).then(
+            (result) => results.push(result),
+            () => {},
+          );
+        }
+
+        if (results.length === 0) {
+          throw new Error("No valid samples returned from LLM");
+        }
+
+        return { results, usage: generateUsage };
+      } catch (e) {
+        generateAttemptSpan.recordException(e as Error);
+        generateAttemptSpan.setStatus({
+          code: SpanStatusCode.ERROR,
+        });
+        error = String(e);
+
+        throw withErrorUsage(e, generateUsage);
+      } finally {
+        generateAttemptSpan.setAttribute("elelem.error", error || "null");
+        generateAttemptSpan.setAttribute(
+          "elelem.samples.returned",
+          responses.length,
+        );
+        generateAttemptSpan.setAttribute(
+          "elelem.samples.valid",
+          results.length,
+        );
+        setUsageAttributes(generateAttemptSpan, generateAttemptUsage);
+        setUsageAttributes(generateSpan, generateUsage);
+
+        recordAttempt({
+          chatId,
+          attempt: attempt++,
+          cacheHit: false,
+          succeeded: error === null,
+          usage: { ...generateAttemptUsage },
+          systemPromptWithFormat,
+          userPrompt,
+          response: null,
+        });
+
+        generateAttemptSpan.end();
+      }
+    },
+    backoffOptions || { numOfAttempts: 3 },
+  );
+}
+
+// single-attempt counterpart of generate that yields partial results while the response streams in
+async function* generateStream<T>(
+  chatId: string,
+  combinedOptions: Omit<ChatCompletionCreateParamsNonStreaming, "messages">,
+  systemPrompt: string,
+  userPrompt: string | ElelemMessage[],
+  schema: ZodType<T>,
+  formatter: ElelemFormatter,
+  options: ElelemActionOptions & ElelemBudget,
+  backoffOptions: Partial<IBackOffOptions> | undefined,
+  cache: ElelemCache,
+  keyConfig: ElelemCacheKeyConfig,
+  openai: OpenAI,
+  sessionUsage: ElelemUsage,
+  sessionBudget: BudgetTracker,
+  rateLimiter: RateLimiter | undefined,
+  pricing: PricingRegistry,
+  recordAttempt: (attempt: GenerateAttempt) => void,
+): AsyncGenerator<DeepPartial<T>, { result: T; usage: ElelemUsage }> {
+  const generateUsage = emptyUsage();
+  const budgets: BudgetTracker[] = [
+    sessionBudget,
+    {
+      scope: "call",
+      budget: options,
+      usage: generateUsage,
+      pending: emptyUsage(),
+    },
+  ];
+  const cachePolicy = options.cachePolicy || "default";
+  const cacheOptions: ElelemCacheEntryOptions = {
+    id: chatId,
+    ttlSeconds: options.cacheTtlSeconds,
+  };
+  const generateSpan = getTracer().startSpan(chatId);
+  const generateContext = trace.setSpan(context.active(), generateSpan);
+
+  let cacheHit = false;
+  let error: string | null = null;
+  let response: string | null = null;
+  let extractedJson: string | null = null;
+
+  const systemPromptWithFormat = `${systemPrompt}\n${formatter(schema)}`;
+
+  try {
+    const cacheKey = buildGenerationCacheKey(keyConfig, {
+      provider: "openai",
+      chatId,
+      systemPrompt,
+      systemPromptWithFormat,
+      formatter,
+      userPrompt,
+      modelOptions: combinedOptions,
+      schema,
+      outputMode: "text",
+    });
+
+    const cached = readsCache(cachePolicy)
+      ? await context.with(generateContext, () =>
+          readCache(cache, cacheKey, cacheOptions, backoffOptions),
+        )
+      : null;
+
+    cacheHit = cached !== null && schema.safeParse(JSON.parse(cached)).success;
+
+    if (!cacheHit && cachePolicy === "cache-only") {
+      throw new ElelemCacheMissError(chatId);
+    }
+
+    if (cached !== null && cacheHit) {
+      response = cached;
+      yield JSON.parse(cached);
+    } else {
+      let lastPartial: string | undefined = undefined;
+      response = "";
+
+      for await (const delta of callOpenAIStreamApi(
+        openai,
+        systemPromptWithFormat,
+        userPrompt,
+        combinedOptions,
+        generateUsage,
+        sessionUsage,
+        budgets,
+        rateLimiter,
+        pricing,
+        generateContext,
+      )) {
+        response += delta;
+
+        const partial = parsePartialJSON(response);
+        const serializedPartial = JSON.stringify(partial);
+
+        if (partial !== undefined && serializedPartial !== lastPartial) {
+          lastPartial = serializedPartial;
+          yield partial as DeepPartial<T>;
+        }
+      }
+    }
+
+    const finalResponse = response;
+    const result = await context.with(generateContext, () =>
+      parseResponse(
+        finalResponse,
+        schema,
+        {},
+        isDeterministic(combinedOptions),
+        async (json) => {
+          if (!cacheHit && writesCache(cachePolicy)) {
+            await writeCache(
+              cache,
+              cacheKey,
+              json,
+              cacheOptions,
+              backoffOptions,
+            );
+          }
+        },
+        (json) => (extractedJson = json),
+      ),
+    );
+
+    return { result, usage: generateUsage };
+  } catch (e) {
+    generateSpan.recordException(e as Error);
+    generateSpan.setStatus({ code: SpanStatusCode.ERROR });
+    error = String(e);
+
+    throw withErrorUsage(e, generateUsage);
+  } finally {
+    setElelemConfigAttributes(generateSpan, {
+      "elelem.cache.hit": cacheHit,
+      "elelem.cache.policy": cachePolicy,
+      "elelem.error": error || "null",
+      "elelem.output_mode": "text",
+      "elelem.repair.count": 0,
+      "openai.prompt.options": JSON.stringify(combinedOptions),
+      "openai.prompt.system": systemPromptWithFormat,
+      "openai.prompt.user": userPromptAttribute(userPrompt),
+      "openai.prompt.response": response || "null",
+      "openai.prompt.response.extracted": extractedJson || "null",
+    });
+    setUsageAttributes(generateSpan, generateUsage);
+
+    recordAttempt({
+      chatId,
+      attempt: 0,
+      cacheHit,
+      succeeded: error === null,
+      usage: { ...generateUsage },
+      systemPromptWithFormat,
+      userPrompt,
+      response,
+    });
+
+    generateSpan.end();
+  }
+}
+
+// a view of the context that adds the usage of each generation, including failed ones, to itemUsage
+const withItemUsage = (
+  context: ElelemContext,
+  itemUsage: ElelemUsage,
+): ElelemContext => {
+  const track = async <R extends { usage: ElelemUsage }>(
+    generation: Promise<R>,
+  ): Promise<R> => {
+    try {
+      const generated = await generation;
+      addUsage(itemUsage, generated.usage, generated.usage.cost_usd);
+      return generated;
+    } catch (e) {
+      if (e instanceof ElelemError) {
+        addUsage(itemUsage, e.usage, e.usage.cost_usd);
+      }
+      throw e;
+    }
+  };
+
+  // counts a stream's usage once, whether it's read by iterating or through final
+  const trackStream = <T>(stream: ElelemStream<T>): ElelemStream<T> => {
+    let counted = false;
+
+    const count = (usage: ElelemUsage) => {
+      if (!counted) {
+        counted = true;
+        addUsage(itemUsage, usage, usage.cost_usd);
+      }
+    };
+
+    const final = async () => {
+      try {
+        const generated = await stream.final();
+        count(generated.usage);
+        return generated;
+      } catch (e) {
+        if (e instanceof ElelemError) {
+          count(e.usage);
+        }
+        throw e;
+      }
+    };
+
+    const iterator = stream[Symbol.asyncIterator]();
+
+    return {
+      [Symbol.asyncIterator]: () => ({
+        next: async () => {
           try {
-            const context: ElelemContext = {
-              openai: async (
+            const next = await iterator.next();
+
+            if (next.done) {
+              await final();
+            }
+
+            return next;
+          } catch (e) {
+            if (e instanceof ElelemError) {
+              count(e.usage);
+            }
+            throw e;
+          }
+        },
+        return: async () =>
+          iterator.return !== undefined
+            ? await iterator.return()
+            : { done: true, value: undefined },
+      }),
+      final,
+    };
+  };
+
+  return {
+    ...context,
+    openai: ((...args: Parameters<ElelemContext["openai"]>) =>
+      track(context.openai(...args))) as ElelemContext["openai"],
+    openaiStream: ((...args: Parameters<ElelemContext["openaiStream"]>) =>
+      trackStream(
+        context.openaiStream(...args),
+      )) as ElelemContext["openaiStream"],
+    cohere: ((...args: Parameters<ElelemContext["cohere"]>) =>
+      track(context.cohere(...args))) as ElelemContext["cohere"],
+    anthropic: ((...args: Parameters<ElelemContext["anthropic"]>) =>
+      track(context.anthropic(...args))) as ElelemContext["anthropic"],
+    generate: ((...args: Parameters<ElelemContext["generate"]>) =>
+      track(context.generate(...args))) as ElelemContext["generate"],
+    fallback: ((...args: Parameters<ElelemContext["fallback"]>) =>
+      track(context.fallback(...args))) as ElelemContext["fallback"],
+    ensemble: ((...args: Parameters<ElelemContext["ensemble"]>) =>
+      track(context.ensemble(...args))) as ElelemContext["ensemble"],
+  };
+};
+
+async function mapItems<I, R>(
+  context: ElelemContext,
+  mapId: string,
+  items: I[],
+  concurrency: number,
+  fn: (item: I, index: number, context: ElelemContext) => Promise<R>,
+  backoffOptions: Partial<BackoffOptions> | undefined,
+): Promise<ElelemMapResult<R>[]> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error("Concurrency must be a positive integer!");
+  }
+
+  return await getTracer().startActiveSpan(mapId, async (mapSpan) => {
+    const results: ElelemMapResult<R>[] = new Array(items.length);
+    let next = 0;
+
+    const runItem = async (index: number): Promise<ElelemMapResult<R>> => {
+      const itemUsage = emptyUsage();
+
+      try {
+        const result = await withRetries(
+          `${mapId}-${index}`,
+          async (span) => {
+            span.setAttribute("elelem.map.index", index);
+            return await fn(
+              items[index],
+              index,
+              withItemUsage(context, itemUsage),
+            );
+          },
+          // generations already retry, so items are only retried on request
+          backoffOptions || { numOfAttempts: 1 },
+        );
+
+        return { index, ok: true, result, usage: itemUsage };
+      } catch (e) {
+        const error =
+          e instanceof ElelemError
+            ? e
+            : new ElelemError((e as Error).message, itemUsage);
+
+        return { index, ok: false, error, usage: itemUsage };
+      }
+    };
+
+    try {
+      // each worker takes the next unstarted item until none are left
+      await Promise.all(
+        Array.from(
+          { length: Math.min(concurrency, items.length) },
+          async () => {
+            while (next < items.length) {
+              const index = next++;
+              results[index] = await runItem(index);
+            }
+          },
+        ),
+      );
+
+      mapSpan.setAttribute("elelem.map.size", items.length);
+      mapSpan.setAttribute(
+        "elelem.map.failures",
+        results.filter((result) => !result.ok).length,
+      );
+
+      return results;
+    } finally {
+      mapSpan.end();
+    }
+  });
+}
+
+const toElelemStream = <T>(
+  generator: AsyncGenerator<DeepPartial<T>, { result: T; usage: ElelemUsage }>,
+): ElelemStream<T> => {
+  let final: { result: T; usage: ElelemUsage } | undefined = undefined;
+
+  const iterator: AsyncIterator<DeepPartial<T>> = {
+    next: async () => {
+      const next = await generator.next();
+
+      if (next.done) {
+        if (final === undefined) {
+          final = next.value;
+        }
+        return { done: true, value: undefined };
+      }
+
+      return next;
+    },
+    return: async () => {
+      await generator.return(undefined as never);
+      return { done: true, value: undefined };
+    },
+  };
+
+  return {
+    [Symbol.asyncIterator]: () => iterator,
+    final: async () => {
+      while (final === undefined) {
+        const next = await iterator.next();
+
+        if (next.done && final === undefined) {
+          throw new Error("Stream was closed before completing!");
+        }
+      }
+
+      return final;
+    },
+  };
+};
+
+export const elelem: Elelem = {
+  init: (config: ElelemConfig) => {
+    const {
+      backoffOptions,
+      cache: cacheConfig,
+      openai,
+      cohere,
+      anthropic,
+    } = config;
+
+    const cache: ElelemCache = getCache(cacheConfig || {});
+    const lock = getCacheLock(cacheConfig || {});
+    const flights = singleFlight();
+    const keyConfig = cacheConfig?.key || {};
+    const rateLimiter = getRateLimiter(config.rateLimits);
+    const pricing = getPricingRegistry(config.pricing);
+
+    const providers: Record<string, AnyElelemProvider> = {
+      ...(openai !== undefined ? { openai: openAIProvider(openai) } : {}),
+      ...(cohere !== undefined ? { cohere: cohereProvider(cohere) } : {}),
+      ...(anthropic !== undefined
+        ? { anthropic: anthropicProvider(anthropic) }
+        : {}),
+      ...config.providers,
+    };
+
+    return {
+      invalidateCache: async (selector) => {
+        const id = selector.chatId ?? selector.actionId;
+
+        if (id === undefined && selector.namespace === undefined) {
+          throw new Error(
+            "You must provide a chatId, actionId, or namespace to invalidate!",
+          );
+        }
+
+        if (cache.invalidate === undefined) {
+          throw new Error("The configured cache doesn't support invalidation!");
+        }
+
+        return await cache.invalidate({ id, namespace: selector.namespace });
+      },
+      session: async (
+        sessionId,
+        defaultModelOptions,
+        contextFunction,
+        sessionOptions,
+      ) => {
+        const sessionCachePolicy = sessionOptions?.cachePolicy || "default";
+
+        const sessionUsage: ElelemUsage = {
+          completion_tokens: 0,
+          prompt_tokens: 0,
+          total_tokens: 0,
+          cost_usd: 0,
+        };
+
+        const sessionBudget: BudgetTracker = {
+          scope: "session",
+          budget: sessionOptions || {},
+          usage: sessionUsage,
+          pending: emptyUsage(),
+        };
+
+        const calls: ElelemCallRecord[] = [];
+
+        const recordGeneration =
+          <ModelOpt extends object>(
+            providerName: string,
+            provider: Pick<
+              ElelemProvider<ModelOpt, unknown, unknown>,
+              "estimateCost" | "batch"
+            >,
+            modelOptions: ModelOpt,
+          ) =>
+          (attempt: GenerateAttempt) => {
+            calls.push({
+              id: attempt.chatId,
+              kind: "generation",
+              provider: providerName,
+              model: (modelOptions as { model?: string }).model,
+              attempt: attempt.attempt,
+              cacheHit: attempt.cacheHit,
+              succeeded: attempt.succeeded,
+              usage: attempt.usage,
+              savedUsd:
+                attempt.cacheHit && attempt.response !== null
+                  ? estimateCallUsage(
+                      attempt.systemPromptWithFormat,
+                      attempt.userPrompt,
+                      // prices the cached response as if it had just been generated
+                      { max_tokens: approximateTokenCount(attempt.response) },
+                      (usage) =>
+                        priceUsage(
+                          pricing,
+                          providerName,
+                          provider,
+                          usage,
+                          modelOptions,
+                        ),
+                    ).cost_usd
+                  : 0,
+            });
+          };
+
+        const combineOptions = (
+          providerName: string,
+          provider: AnyElelemProvider | undefined,
+          modelOptions: object,
+        ) => ({
+          ...provider?.defaultModelOptions,
+          ...defaultModelOptions[providerName],
+          ...modelOptions,
+        });
+
+        const getProvider = <T>(
+          providerName: string,
+          schema: ZodType<T>,
+          options?: ElelemGenerateOptions,
+        ) => {
+          const provider = providers[providerName];
+
+          if (provider === undefined) {
+            throw new Error(`You must configure the ${providerName} provider!`);
+          }
+
+          const output: ElelemOutput = {
+            mode: options?.outputMode || "text",
+            schema,
+          };
+
+          if (
+            output.mode !== "text" &&
+            !provider.outputModes?.includes(output.mode)
+          ) {
+            throw new Error(
+              `The ${providerName} provider doesn't support the ${output.mode} output mode!`,
+            );
+          }
+
+          return { provider, output };
+        };
+
+        const toApiCaller =
+          <Extracted extends string | string[]>(
+            providerName: string,
+            provider: AnyElelemProvider,
+            output: ElelemOutput,
+            options: ElelemGenerateOptions | undefined,
+            extractResponse: (
+              response: unknown,
+              output: ElelemOutput,
+            ) => Extracted,
+            callBudget?: BudgetTracker,
+          ) =>
+          async (
+            systemPromptWithFormat: string,
+            userPrompt: string | ElelemMessage[],
+            combinedOptions: object,
+            generateAttemptUsage: ElelemUsage,
+            generateUsage: ElelemUsage,
+          ): Promise<Extracted> =>
+            await callProvider(
+              providerName,
+              provider,
+              systemPromptWithFormat,
+              userPrompt,
+              combinedOptions,
+              output,
+              generateAttemptUsage,
+              generateUsage,
+              sessionUsage,
+              [
+                sessionBudget,
+                {
+                  scope: "call",
+                  budget: options || {},
+                  usage: generateUsage,
+                  pending: emptyUsage(),
+                },
+                ...(callBudget === undefined ? [] : [callBudget]),
+              ],
+              rateLimiter,
+              pricing,
+              extractResponse,
+            );
+
+        const generateWithProvider = async <T>(
+          providerName: string,
+          chatId: string,
+          modelOptions: object,
+          systemPromptOrTemplate: string | AnyElelemPromptTemplate,
+          userPromptOrVariables: unknown,
+          schema: ZodType<T>,
+          formatter: ElelemFormatter,
+          options?: ElelemGenerateOptions,
+          callBudget?: BudgetTracker,
+        ): Promise<{ result: T; usage: ElelemUsage }> => {
+          const { provider, output } = getProvider(
+            providerName,
+            schema,
+            options,
+          );
+          const combinedOptions = combineOptions(
+            providerName,
+            provider,
+            modelOptions,
+          );
+          const { systemPrompt, userPrompt, template } = resolvePrompt(
+            systemPromptOrTemplate,
+            userPromptOrVariables,
+          );
+
+          return await generate(
+            providerName,
+            chatId,
+            combinedOptions,
+            systemPrompt,
+            userPrompt,
+            schema,
+            formatter,
+            {
+              ...options,
+              cachePolicy: options?.cachePolicy || sessionCachePolicy,
+            },
+            backoffOptions,
+            cache,
+            lock,
+            flights,
+            keyConfig,
+            toApiCaller(
+              providerName,
+              provider,
+              output,
+              options,
+              provider.extractResponse,
+              callBudget,
+            ),
+            recordGeneration(providerName, provider, combinedOptions),
+            template,
+          );
+        };
+
+        // every valid result from one ensemble member, along with the usage of the failed samples
+        const generateMember = async <T>(
+          chatId: string,
+          member: ElelemEnsembleMember,
+          systemPrompt: string,
+          userPrompt: string | ElelemMessage[],
+          schema: ZodType<T>,
+          formatter: ElelemFormatter,
+          options: ElelemGenerateOptions | undefined,
+          callBudget: BudgetTracker,
+        ): Promise<{ results: T[]; usage: ElelemUsage }> => {
+          const samples = member.samples ?? 1;
+          const memberOptions = { ...options, ...member.options };
+          const memberFormatter = member.formatter || formatter;
+          const provider = providers[member.provider];
+          const sampling = provider?.sampling;
+          const cachePolicy = memberOptions.cachePolicy || sessionCachePolicy;
+
+          // members with several samples never write to the cache, so there's nothing to replay
+          if (samples > 1 && cachePolicy === "cache-only") {
+            throw new ElelemCacheMissError(chatId);
+          }
+
+          if (samples > 1 && sampling !== undefined) {
+            const { output } = getProvider(
+              member.provider,
+              schema,
+              memberOptions,
+            );
+            const combinedOptions = sampling.withSamples(
+              combineOptions(
+                member.provider,
+                provider,
+                member.modelOptions || {},
+              ),
+              samples,
+            );
+
+            return await generateSamples(
+              chatId,
+              combinedOptions,
+              systemPrompt,
+              userPrompt,
+              schema,
+              memberFormatter,
+              memberOptions,
+              backoffOptions,
+              toApiCaller(
+                member.provider,
+                provider,
+                output,
+                memberOptions,
+                sampling.extractResponses,
+                callBudget,
+              ),
+              recordGeneration(member.provider, provider, combinedOptions),
+            );
+          }
+
+          const memberUsage = emptyUsage();
+          const generations = await Promise.allSettled(
+            Array.from({ length: samples }, () =>
+              generateWithProvider(
+                member.provider,
                 chatId,
-                modelOptions,
+                member.modelOptions || {},
                 systemPrompt,
                 userPrompt,
                 schema,
+                memberFormatter,
+                samples > 1
+                  ? {
+                      ...memberOptions,
+                      cachePolicy:
+                        cachePolicy === "read-only" ? "read-only" : "bypass",
+                    }
+                  : memberOptions,
+                callBudget,
+              ),
+            ),
+          );
+
+          const results: T[] = [];
+          let lastError: unknown;
+          let unrecoverableError: ElelemError | undefined;
+
+          for (const generation of generations) {
+            if (generation.status === "fulfilled") {
+              results.push(generation.value.result);
+              addUsage(
+                memberUsage,
+                generation.value.usage,
+                generation.value.usage.cost_usd,
+              );
+            } else {
+              lastError = generation.reason;
+
+              if (isUnrecoverable(lastError)) {
+                unrecoverableError = lastError;
+              }
+
+              if (lastError instanceof ElelemError) {
+                addUsage(
+                  memberUsage,
+                  lastError.usage,
+                  lastError.usage.cost_usd,
+                );
+              }
+            }
+          }
+
+          if (results.length === 0) {
+            throw withErrorUsage(unrecoverableError ?? lastError, memberUsage);
+          }
+
+          return { results, usage: memberUsage };
+        };
+
+        // takes the context so the aggregator can call models through it
+        const generateEnsemble = async <T>(
+          context: ElelemContext,
+          chatId: string,
+          members: ElelemEnsembleMember[],
+          systemPrompt: string,
+          userPrompt: string | ElelemMessage[],
+          schema: ZodType<T>,
+          formatter: ElelemFormatter,
+          aggregator: ElelemAggregator<T>,
+          options?: ElelemGenerateOptions,
+        ) => {
+          if (members.length === 0) {
+            throw new Error("You must provide at least one ensemble member!");
+          }
+
+          return await getTracer().startActiveSpan(
+            `${chatId}-ensemble`,
+            async (ensembleSpan) => {
+              const ensembleUsage = emptyUsage();
+              // the per-call budget covers every member together
+              const callBudget: BudgetTracker = {
+                scope: "call",
+                budget: options || {},
+                usage: emptyUsage(),
+                pending: emptyUsage(),
+                tracksUsage: true,
+              };
+
+              try {
+                const generations = await Promise.allSettled(
+                  members.map((member) =>
+                    generateMember(
+                      chatId,
+                      member,
+                      systemPrompt,
+                      userPrompt,
+                      schema,
+                      formatter,
+                      options,
+                      callBudget,
+                    ),
+                  ),
+                );
+
+                const results: T[] = [];
+                let lastError: unknown;
+                let unrecoverableError: ElelemError | undefined;
+
+                for (const [index, generation] of generations.entries()) {
+                  if (generation.status === "fulfilled") {
+                    results.push(...generation.value.results);
+                    addUsage(
+                      ensembleUsage,
+                      generation.value.usage,
+                      generation.value.usage.cost_usd,
+                    );
+                  } else {
+                    lastError = generation.reason;
+
+                    if (isUnrecoverable(lastError)) {
+                      unrecoverableError = lastError;
+                    }
+
+                    if (lastError instanceof ElelemError) {
+                      addUsage(
+                        ensembleUsage,
+                        lastError.usage,
+                        lastError.usage.cost_usd,
+                      );
+                    }
+
+                    ensembleSpan.addEvent("elelem.ensemble.failure", {
+                      "elelem.ensemble.member": index,
+                      "elelem.error": String(lastError),
+                    });
+                  }
+                }
+
+                if (results.length === 0) {
+                  // running out of budget or missing the cache isn't a member failure, so it surfaces as is
+                  if (unrecoverableError !== undefined) {
+                    throw unrecoverableError;
+                  }
+
+                  throw new ElelemError(
+                    `Every ensemble member failed, the last with: ${
+                      (lastError as Error).message
+                    }`,
+                    ensembleUsage,
+                  );
+                }
+
+                const { result, agreement } = await aggregator(
+                  results,
+                  { chatId, systemPrompt, userPrompt, schema },
+                  withItemUsage(context, ensembleUsage),
+                );
+
+                const parsed = schema.safeParse(result);
+
+                if (!parsed.success) {
+                  throw new ElelemError(
+                    `The aggregated result doesn't match the schema: ${parsed.error.toString()}`,
+                    ensembleUsage,
+                  );
+                }
+
+                ensembleSpan.setAttribute(
+                  "elelem.ensemble.results",
+                  results.length,
+                );
+                ensembleSpan.setAttribute(
+                  "elelem.ensemble.agreement",
+                  agreement,
+                );
+
+                return {
+                  result: parsed.data,
+                  agreement,
+                  results,
+                  usage: ensembleUsage,
+                };
+              } catch (e) {
+                ensembleSpan.recordException(e as Error);
+                ensembleSpan.setStatus({ code: SpanStatusCode.ERROR });
+                throw withErrorUsage(e, ensembleUsage);
+              } finally {
+                setUsageAttributes(ensembleSpan, ensembleUsage);
+                ensembleSpan.end();
+              }
+            },
+          );
+        };
+
+        const generateWithFallback = async <T>(
+          chatId: string,
+          chain: ElelemFallbackEntry[],
+          systemPrompt: string,
+          userPrompt: string | ElelemMessage[],
+          schema: ZodType<T>,
+          formatter: ElelemFormatter,
+          options?: ElelemGenerateOptions,
+        ) => {
+          if (chain.length === 0) {
+            throw new Error("You must provide at least one fallback entry!");
+          }
+
+          return await getTracer().startActiveSpan(
+            `${chatId}-fallback`,
+            async (fallbackSpan) => {
+              const fallbackUsage = emptyUsage();
+              // the per-call budget covers the whole chain rather than each entry
+              const callBudget: BudgetTracker = {
+                scope: "call",
+                budget: options || {},
+                usage: emptyUsage(),
+                pending: emptyUsage(),
+                tracksUsage: true,
+              };
+              let lastError: unknown;
+
+              try {
+                for (const [index, entry] of chain.entries()) {
+                  const modelOptions = entry.modelOptions || {};
+                  const model = (
+                    combineOptions(
+                      entry.provider,
+                      providers[entry.provider],
+                      modelOptions,
+                    ) as { model?: string }
+                  ).model;
+
+                  try {
+                    const { result, usage } = await generateWithProvider(
+                      entry.provider,
+                      chatId,
+                      modelOptions,
+                      systemPrompt,
+                      userPrompt,
+                      schema,
+                      entry.formatter || formatter,
+                      { ...options, ...entry.options },
+                      callBudget,
+                    );
+                    addUsage(fallbackUsage, usage, usage.cost_usd);
+
+                    fallbackSpan.setAttribute("elelem.fallback.index", index);
+                    fallbackSpan.setAttribute(
+                      "elelem.fallback.provider",
+                      entry.provider,
+                    );
+                    fallbackSpan.setAttribute(
+                      "elelem.fallback.model",
+                      model || "null",
+                    );
+
+                    return {
+                      result,
+                      usage: fallbackUsage,
+                      provider: entry.provider,
+                      model,
+                    };
+                  } catch (e) {
+                    if (e instanceof ElelemError) {
+                      addUsage(fallbackUsage, e.usage, e.usage.cost_usd);
+                    }
+
+                    // a later entry would only run into the same budget
+                    if (e instanceof ElelemBudgetExceededError) {
+                      fallbackSpan.setStatus({ code: SpanStatusCode.ERROR });
+                      throw withErrorUsage(e, fallbackUsage);
+                    }
+
+                    fallbackSpan.addEvent("elelem.fallback", {
+                      "elelem.fallback.index": index,
+                      "elelem.fallback.provider": entry.provider,
+                      "elelem.fallback.model": model || "null",
+                      "elelem.error": String(e),
+                    });
+                    lastError = e;
+                  }
+                }
+
+                fallbackSpan.setStatus({ code: SpanStatusCode.ERROR });
+                throw new ElelemError(
+                  `Every fallback entry failed, the last with: ${
+                    (lastError as Error).message
+                  }`,
+                  fallbackUsage,
+                );
+              } finally {
+                setUsageAttributes(fallbackSpan, fallbackUsage);
+                fallbackSpan.end();
+              }
+            },
+          );
+        };
+
+        return getTracer().startActiveSpan(sessionId, async (sessionSpan) => {
+          try {
+            const context: ElelemContext = {
+              openai: async <T>(
+                chatId: string,
+                modelOptions: object,
+                systemPrompt: string | AnyElelemPromptTemplate,
+                userPrompt: unknown,
+                schema: ZodType<T>,
                 formatter: ElelemFormatter,
+                options?: ElelemGenerateOptions,
               ) => {
                 if (
                   openai === undefined ||
@@ -395,94 +2034,116 @@ export const elelem: Elelem = {
                   throw new Error("You must configure OpenAI!");
                 }
 
-                const apiCaller = async (
-                  systemPromptWithFormat: string,
-                  userPrompt: string,
-                  combinedOptions: Omit<
-                    ChatCompletionCreateParamsNonStreaming,
-                    "messages"
-                  >,
-                  generateAttemptUsage: ElelemUsage,
-                  generateUsage: ElelemUsage,
-                ): Promise<string> => {
-                  return await callOpenAIApi(
-                    openai,
-                    systemPromptWithFormat,
-                    userPrompt,
-                    combinedOptions,
-                    generateAttemptUsage,
-                    generateUsage,
-                    sessionUsage,
-                  );
-                };
-
-                const combinedOptions = {
-                  ...defaultModelOptions.openai,
-                  ...modelOptions,
-                };
-
-                return await generate(
+                return await generateWithProvider(
+                  "openai",
                   chatId,
-                  combinedOptions,
+                  modelOptions,
                   systemPrompt,
                   userPrompt,
                   schema,
                   formatter,
-                  backoffOptions,
-                  cache,
-                  apiCaller,
+                  options,
                 );
               },
-              cohere: async (
+              openaiStream: (
                 chatId,
                 modelOptions,
                 systemPrompt,
                 userPrompt,
                 schema,
                 formatter: ElelemFormatter,
+                options,
               ) => {
-                if (cohere === undefined) {
-                  throw new Error("You must configure Cohere!");
+                if (
+                  openai === undefined ||
+                  defaultModelOptions.openai === undefined
+                ) {
+                  throw new Error("You must configure OpenAI!");
                 }
 
-                const apiCaller = async (
-                  systemPromptWithFormat: string,
-                  userPrompt: string,
-                  combinedOptions: Omit<GenerateRequest, "prompt"> & {
-                    max_tokens: number;
-                  },
-                ): Promise<string> => {
-                  return await callCohereApi(
-                    cohere,
-                    systemPromptWithFormat,
-                    userPrompt,
-                    combinedOptions,
-                  );
-                };
-
-                const combinedOptions: Omit<GenerateRequest, "prompt"> & {
-                  max_tokens: number;
-                } = {
-                  ...{ max_tokens: 100 },
-                  ...defaultModelOptions.cohere,
+                const combinedOptions = {
+                  ...defaultModelOptions.openai,
                   ...modelOptions,
                 };
 
-                // since cohere doesn't have actual system prompts, it has trouble identifying where the input starts
-                const prefixedUserPrompt = `\nInput: ${userPrompt}`;
+                return toElelemStream(
+                  generateStream(
+                    chatId,
+                    combinedOptions,
+                    systemPrompt,
+                    userPrompt,
+                    schema,
+                    formatter,
+                    {
+                      ...options,
+                      cachePolicy: options?.cachePolicy || sessionCachePolicy,
+                    },
+                    backoffOptions,
+                    cache,
+                    keyConfig,
+                    openai,
+                    sessionUsage,
+                    sessionBudget,
+                    rateLimiter,
+                    pricing,
+                    recordGeneration("openai", {}, combinedOptions),
+                  ),
+                );
+              },
+              cohere: async <T>(
+                chatId: string,
+                modelOptions: object,
+                systemPrompt: string | AnyElelemPromptTemplate,
+                userPrompt: unknown,
+                schema: ZodType<T>,
+                formatter: ElelemFormatter,
+                options?: ElelemGenerateOptions,
+              ) => {
+                if (cohere === undefined) {
+                  throw new Error("You must configure Cohere!");
+                }
 
-                return await generate(
+                return await generateWithProvider(
+                  "cohere",
                   chatId,
-                  combinedOptions,
+                  modelOptions,
                   systemPrompt,
-                  prefixedUserPrompt,
+                  userPrompt,
                   schema,
                   formatter,
-                  backoffOptions,
-                  cache,
-                  apiCaller,
+                  options,
                 );
               },
+              anthropic: async <T>(
+                chatId: string,
+                modelOptions: object,
+                systemPrompt: string | AnyElelemPromptTemplate,
+                userPrompt: unknown,
+                schema: ZodType<T>,
+                formatter: ElelemFormatter,
+                options?: ElelemGenerateOptions,
+              ) => {
+                if (
+                  anthropic === undefined ||
+                  defaultModelOptions.anthropic === undefined
+                ) {
+                  throw new Error("You must configure Anthropic!");
+                }
+
+                return await generateWithProvider(
+                  "anthropic",
+                  chatId,
+                  modelOptions,
+                  systemPrompt,
+                  userPrompt,
+                  schema,
+                  formatter,
+                  options,
+                );
+              },
+              generate: generateWithProvider,
+              fallback: generateWithFallback,
+              ensemble: (...args) => generateEnsemble(context, ...args),
               action: async <AC extends object, T>(
                 actionId: string,
                 actionContext: AC,
@@ -494,51 +2155,90 @@ export const elelem: Elelem = {
                   parentSpan: Span,
                 ) => Promise<T>,
                 backoffOptions?: Partial<BackoffOptions>,
+                options?: ElelemActionOptions,
               ): Promise<T> => {
+                const cachePolicy = options?.cachePolicy || sessionCachePolicy;
+                const cacheKey = buildActionCacheKey(keyConfig, {
+                  actionId,
+                  actionContext,
+                });
+                const cacheOptions: ElelemCacheEntryOptions = {
+                  id: actionId,
+                  ttlSeconds: options?.cacheTtlSeconds,
+                };
+                let attempt = 0;
+
                 return await withRetries(
                   actionId,
                   async (span, parentSpan) => {
-                    const cacheValue = await withRetries(
-                      "cache-read",
-                      async (cacheReadSpan) => {
-                        const cacheResult = await cache.read(actionContext);
-                        cacheReadSpan.setAttribute(
-                          "elelem.cache.hit",
-                          cacheResult !== null,
-                        );
-                        cacheReadSpan.end();
-                        return cacheResult;
-                      },
-                      backoffOptions || { numOfAttempts: 3 },
-                    );
+                    let cacheHit = false;
+                    let succeeded = false;
 
-                    if (cacheValue) {
-                      return cacheDeserializer(cacheValue);
-                    } else {
-                      const result = await operation(
-                        actionContext,
-                        span,
-                        parentSpan,
-                      );
+                    try {
+                      const cacheValue = readsCache(cachePolicy)
+                        ? await readCache(
+                            cache,
+                            cacheKey,
+                            cacheOptions,
+                            backoffOptions,
+                          )
+                        : null;
 
-                      await withRetries(
-                        "cache-write",
-                        async (cacheReadSpan) => {
-                          await cache.write(
-                            actionContext,
+                      cacheHit = !!cacheValue;
+                      span.setAttribute("elelem.cache.hit", cacheHit);
+                      span.setAttribute("elelem.cache.policy", cachePolicy);
+
+                      if (cacheValue) {
+                        const result = cacheDeserializer(cacheValue);
+                        succeeded = true;
+                        return result;
+                      } else if (cachePolicy === "cache-only") {
+                        throw new ElelemCacheMissError(actionId);
+                      } else {
+                        const result = await operation(
+                          actionContext,
+                          span,
+                          parentSpan,
+                        );
+
+                        if (writesCache(cachePolicy)) {
+                          await writeCache(
+                            cache,
+                            cacheKey,
                             cacheSerializer(result),
+                            cacheOptions,
+                            backoffOptions,
                           );
-                          cacheReadSpan.end();
-                        },
-                        backoffOptions || { numOfAttempts: 3 },
-                      );
+                        }
 
-                      return result;
+                        succeeded = true;
+                        return result;
+                      }
+                    } finally {
+                      // actions don't call models through elelem, so they have no usage of their own
+                      calls.push({
+                        id: actionId,
+                        kind: "action",
+                        attempt: attempt++,
+                        cacheHit,
+                        succeeded,
+                        usage: emptyUsage(),
+                        savedUsd: 0,
+                      });
                     }
                   },
                   backoffOptions,
                 );
               },
+              map: (mapId, items, concurrency, fn, itemBackoffOptions) =>
+                mapItems(
+                  context,
+                  mapId,
+                  items,
+                  concurrency,
+                  fn,
+                  itemBackoffOptions,
+                ),
             };
 
             const result = await contextFunction(context);
@@ -546,11 +2246,15 @@ export const elelem: Elelem = {
             return {
               result,
               usage: sessionUsage,
+              breakdown: toBreakdown(calls),
             };
           } catch (e) {
             sessionSpan.recordException(e as Error);
             sessionSpan.setStatus({ code: SpanStatusCode.ERROR });
-            throw new ElelemError((e as Error).message, sessionUsage);
+
+            const error = withErrorUsage(e, sessionUsage);
+            error.breakdown = toBreakdown(calls);
+            throw error;
           } finally {
             setUsageAttributes(sessionSpan, sessionUsage);
             sessionSpan.end();
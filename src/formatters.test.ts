@@ -0,0 +1,152 @@
+import { z } from "zod";
+import { describe, expect, test } from "@jest/globals";
+import {
+  fewShotFormatter,
+  JsonSchemaAndExampleFormatter,
+  NullFormatter,
+  TypeScriptFormatter,
+} from "./formatters";
+
+enum Size {
+  Small,
+  Large,
+}
+
+const citySchema = z
+  .object({
+    name: z.string().describe("The official name"),
+    kind: z.enum(["capitol", "city"]),
+    nickname: z.string().optional(),
+    population: z.number().int().positive().describe("Rounded\nto thousands"),
+    mayor: z.object({ name: z.string(), since: z.number() }).nullable(),
+    districts: z.array(z.union([z.string(), z.number()])).optional(),
+    coordinates: z.tuple([z.number(), z.number()]),
+    size: z.nativeEnum(Size),
+    "zip-codes": z.record(z.string(), z.literal(true)),
+  })
+  .describe("A city");
+
+describe("typescript formatter", () => {
+  test("renders a type declaration", () => {
+    expect(TypeScriptFormatter(citySchema))
+      .toBe(`You must format your output as a JSON value of the following TypeScript type, with no trailing commas:
+\`\`\`typescript
+// A city
+type Output = {
+  // The official name
+  name: string;
+  kind: "capitol" | "city";
+  nickname?: string;
+  // Rounded
+  // to thousands
+  population: number;
+  mayor: {
+    name: string;
+    since: number;
+  } | null;
+  districts?: (string | number)[];
+  coordinates: [number, number];
+  size: 0 | 1;
+  "zip-codes": Record<string, true>;
+};
+\`\`\``);
+  });
+
+  test("is shorter than json schema", () => {
+    expect(TypeScriptFormatter(citySchema).length).toBeLessThan(
+      JsonSchemaAndExampleFormatter(citySchema).length / 2,
+    );
+  });
+
+  test("wraps unions of objects inside arrays", () => {
+    expect(
+      TypeScriptFormatter(
+        z.array(
+          z.union([z.object({ a: z.string() }), z.object({ b: z.number() })]),
+        ),
+      ),
+    ).toContain(`type Output = ({
+  a: string;
+} | {
+  b: number;
+})[];`);
+
+    expect(TypeScriptFormatter(z.array(z.object({ c: z.string() }).nullable())))
+      .toContain(`type Output = ({
+  c: string;
+} | null)[];`);
+
+    // operators inside string literals and nested objects don't count
+    expect(TypeScriptFormatter(z.array(z.literal("a | b")))).toContain(
+      `type Output = "a | b"[];`,
+    );
+    expect(TypeScriptFormatter(z.array(z.object({ d: z.string().nullable() }))))
+      .toContain(`type Output = {
+  d: string | null;
+}[];`);
+  });
+
+  test("renders non-object roots", () => {
+    expect(TypeScriptFormatter(z.array(z.string()))).toContain(
+      "type Output = string[];",
+    );
+  });
+});
+
+describe("few-shot formatter", () => {
+  const sentimentSchema = z.object({
+    label: z.enum(["positive", "negative"]),
+  });
+
+  const examples = [
+    { input: "Loved it!", output: { label: "positive" as const } },
+    { input: "Never again.", output: { label: "negative" as const } },
+  ];
+
+  test("lists examples in the system prompt", () => {
+    const formatter = fewShotFormatter(sentimentSchema, examples, {
+      formatter: NullFormatter,
+    });
+
+    expect(formatter(sentimentSchema)).toBe(`Examples:
+
+Input: Loved it!
+Output: {"label":"positive"}
+
+Input: Never again.
+Output: {"label":"negative"}`);
+    expect(formatter.withExamples("Meh.")).toBe("Meh.");
+  });
+
+  test("sends examples as messages", () => {
+    const formatter = fewShotFormatter(sentimentSchema, examples, {
+      asMessages: true,
+    });
+
+    expect(formatter(sentimentSchema)).toBe(
+      TypeScriptFormatter(sentimentSchema),
+    );
+    expect(formatter.withExamples("Meh.")).toEqual([
+      { role: "user", content: "Loved it!" },
+      { role: "assistant", content: `{"label":"positive"}` },
+      { role: "user", content: "Never again." },
+      { role: "assistant", content: `{"label":"negative"}` },
+      { role: "user", content: "Meh." },
+    ]);
+  });
+
+  test("rejects examples that don't match the schema", () => {
+    expect(() =>
+      fewShotFormatter(sentimentSchema, [
+        ...examples,
+        { input: "Fine.", output: { label: "neutral" } as never },
+      ]),
+    ).toThrow("Few-shot example 2 doesn't match the schema");
+  });
+
+  test("names formatters by their examples", () => {
+    expect(fewShotFormatter(sentimentSchema, examples).name).not.toBe(
+      fewShotFormatter(sentimentSchema, examples.slice(1)).name,
+    );
+  });
+});
@@ -1,7 +1,44 @@
-import { ZodType } from "zod";
+import {
+  ZodArray,
+  ZodBigInt,
+  ZodBoolean,
+  ZodBranded,
+  ZodCatch,
+  ZodDate,
+  ZodDefault,
+  ZodDiscriminatedUnion,
+  ZodEffects,
+  ZodEnum,
+  ZodIntersection,
+  ZodLiteral,
+  ZodMap,
+  ZodNativeEnum,
+  ZodNull,
+  ZodNullable,
+  ZodNumber,
+  ZodObject,
+  ZodOptional,
+  ZodPipeline,
+  ZodReadonly,
+  ZodRecord,
+  ZodSet,
+  ZodString,
+  ZodTuple,
+  ZodType,
+  ZodTypeAny,
+  ZodUnion,
+} from "zod";
+import objectHash from "object-hash";
 import { zodToJsonSchema } from "zod-to-json-schema";
 import { generateMock } from "@anatine/zod-mock";
-import { ElelemFormatter } from "./types";
+import { toMessages } from "./helpers";
+import {
+  ElelemExample,
+  ElelemFewShotFormatter,
+  ElelemFewShotOptions,
+  ElelemFormatter,
+  ElelemMessage,
+} from "./types";
 
 export const LangchainJsonSchemaFormatter = <T>(schema: ZodType<T>) => {
   return `You must format your output as a JSON value that adheres to a given "JSON Schema" instance.
@@ -55,6 +92,229 @@ ${JSON.stringify(generateMock(schema, { seed: 11 }))}
 `.trim();
 };
 
+// wrappers that don't change the shape of the json the model has to produce
+const unwrapSchema = (schema: ZodTypeAny): ZodTypeAny => {
+  if (schema instanceof ZodEffects) {
+    return unwrapSchema(schema.innerType());
+  } else if (schema instanceof ZodDefault) {
+    return unwrapSchema(schema.removeDefault());
+  } else if (schema instanceof ZodBranded) {
+    return unwrapSchema(schema.unwrap());
+  } else if (schema instanceof ZodCatch) {
+    return unwrapSchema(schema.removeCatch());
+  } else if (schema instanceof ZodReadonly) {
+    return unwrapSchema(schema._def.innerType);
+  } else if (schema instanceof ZodPipeline) {
+    return unwrapSchema(schema._def.in);
+  } else {
+    return schema;
+  }
+};
+
+// the outermost description, since describe() can be called before or after optional() and friends
+const describeSchema = (schema: ZodTypeAny): string | undefined => {
+  if (schema.description !== undefined) {
+    return schema.description;
+  } else if (schema instanceof ZodOptional || schema instanceof ZodNullable) {
+    return describeSchema(schema.unwrap());
+  }
+
+  const unwrapped = unwrapSchema(schema);
+  return unwrapped === schema ? undefined : describeSchema(unwrapped);
+};
+
+const isOptional = (schema: ZodTypeAny): boolean =>
+  schema instanceof ZodOptional ||
+  schema instanceof ZodDefault ||
+  (unwrapSchema(schema) !== schema && isOptional(unwrapSchema(schema)));
+
+const toComment = (description: string, indent: string): string =>
+  description
+    .split("\n")
+    .map((line) => `${indent}// ${line}`)
+    .join("\n");
+
+// whether the type has a | or & outside of any object, tuple, generic, or string literal
+const hasTopLevelOperator = (type: string): boolean => {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = 0; i < type.length; i++) {
+    const char = type[i];
+
+    if (inString) {
+      if (char === "\\") {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if ("{[(<".includes(char)) {
+      depth++;
+    } else if ("}])>".includes(char)) {
+      depth--;
+    } else if ((char === "|" || char === "&") && depth === 0) {
+      return true;
+    }
+  }
+
+  return false;
+};
+
+// wraps unions and intersections that are used inside arrays
+const toElementType = (schema: ZodTypeAny, indent: string): string => {
+  const type = toTypeScript(schema, indent);
+  return hasTopLevelOperator(type) ? `(${type})` : type;
+};
+
+const toTypeScript = (schema: ZodTypeAny, indent: string): string => {
+  const unwrapped = unwrapSchema(schema);
+
+  if (unwrapped instanceof ZodOptional) {
+    return toTypeScript(unwrapped.unwrap(), indent);
+  } else if (unwrapped instanceof ZodNullable) {
+    return `${toTypeScript(unwrapped.unwrap(), indent)} | null`;
+  } else if (unwrapped instanceof ZodString || unwrapped instanceof ZodDate) {
+    return "string";
+  } else if (unwrapped instanceof ZodNumber || unwrapped instanceof ZodBigInt) {
+    return "number";
+  } else if (unwrapped instanceof ZodBoolean) {
+    return "boolean";
+  } else if (unwrapped instanceof ZodNull) {
+    return "null";
+  } else if (unwrapped instanceof ZodLiteral) {
+    return JSON.stringify(unwrapped.value);
+  } else if (unwrapped instanceof ZodEnum) {
+    return (unwrapped.options as string[])
+      .map((option) => JSON.stringify(option))
+      .join(" | ");
+  } else if (unwrapped instanceof ZodNativeEnum) {
+    const values = Object.entries(unwrapped.enum as Record<string, unknown>)
+      // numeric enums map their values back to their names
+      .filter(([key]) => Number.isNaN(Number(key)))
+      .map(([, value]) => JSON.stringify(value));
+    return [...new Set(values)].join(" | ");
+  } else if (unwrapped instanceof ZodArray || unwrapped instanceof ZodSet) {
+    const element =
+      unwrapped instanceof ZodArray
+        ? unwrapped.element
+        : (unwrapped._def.valueType as ZodTypeAny);
+    return `${toElementType(element, indent)}[]`;
+  } else if (unwrapped instanceof ZodTuple) {
+    return `[${(unwrapped.items as ZodTypeAny[])
+      .map((item) => toTypeScript(item, indent))
+      .join(", ")}]`;
+  } else if (unwrapped instanceof ZodRecord || unwrapped instanceof ZodMap) {
+    return `Record<string, ${toTypeScript(unwrapped._def.valueType, indent)}>`;
+  } else if (
+    unwrapped instanceof ZodUnion ||
+    unwrapped instanceof ZodDiscriminatedUnion
+  ) {
+    return (unwrapped.options as ZodTypeAny[])
+      .map((option) => toTypeScript(option, indent))
+      .join(" | ");
+  } else if (unwrapped instanceof ZodIntersection) {
+    return `${toElementType(unwrapped._def.left, indent)} & ${toElementType(
+      unwrapped._def.right,
+      indent,
+    )}`;
+  } else if (unwrapped instanceof ZodObject) {
+    const fieldIndent = `${indent}  `;
+    const fields = Object.entries(
+      unwrapped.shape as Record<string, ZodTypeAny>,
+    ).map(([name, field]) => {
+      const description = describeSchema(field);
+      const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+      const declaration = `${fieldIndent}${key}${
+        isOptional(field) ? "?" : ""
+      }: ${toTypeScript(field, fieldIndent)};`;
+
+      return description !== undefined
+        ? `${toComment(description, fieldIndent)}\n${declaration}`
+        : declaration;
+    });
+
+    return fields.length > 0 ? `{\n${fields.join("\n")}\n${indent}}` : "{}";
+  } else {
+    return "unknown";
+  }
+};
+
+// renders the schema as a typescript type, which is much shorter than json schema and which models follow well
+export const TypeScriptFormatter: ElelemFormatter = <T>(schema: ZodType<T>) => {
+  const description = describeSchema(schema);
+
+  return `You must format your output as a JSON value of the following TypeScript type, with no trailing commas:
+\`\`\`typescript
+${
+  description !== undefined ? `${toComment(description, "")}\n` : ""
+}type Output = ${toTypeScript(schema, "")};
+\`\`\``;
+};
+
 export const NullFormatter: ElelemFormatter = () => {
   return "";
 };
+
+// examples are checked against the schema up front, so a schema change can't leave them silently out of date
+export const fewShotFormatter = <T>(
+  schema: ZodType<T>,
+  examples: ElelemExample<T>[],
+  options: ElelemFewShotOptions = {},
+): ElelemFewShotFormatter => {
+  examples.forEach((example, index) => {
+    const parsed = schema.safeParse(example.output);
+
+    if (!parsed.success) {
+      throw new Error(
+        `Few-shot example ${index} doesn't match the schema: ${parsed.error.toString()}`,
+      );
+    }
+  });
+
+  const baseFormatter = options.formatter || TypeScriptFormatter;
+
+  const renderedExamples = examples
+    .map(
+      (example) =>
+        `Input: ${example.input}\nOutput: ${JSON.stringify(example.output)}`,
+    )
+    .join("\n\n");
+
+  const formatter = <S>(formatSchema: ZodType<S>) => {
+    const format = baseFormatter(formatSchema);
+
+    if (options.asMessages || examples.length === 0) {
+      return format;
+    }
+
+    return [format, `Examples:\n\n${renderedExamples}`]
+      .filter((part) => part !== "")
+      .join("\n\n");
+  };
+
+  const withExamples = (
+    userPrompt: string | ElelemMessage[],
+  ): string | ElelemMessage[] =>
+    options.asMessages
+      ? [
+          ...examples.flatMap((example): ElelemMessage[] => [
+            { role: "user", content: example.input },
+            { role: "assistant", content: JSON.stringify(example.output) },
+          ]),
+          ...toMessages(userPrompt),
+        ]
+      : userPrompt;
+
+  // caches keyed on formatter names shouldn't mix up different examples
+  Object.defineProperty(formatter, "name", {
+    value: `fewShotFormatter:${objectHash({
+      examples,
+      asMessages: options.asMessages || false,
+      formatter: baseFormatter.name,
+    })}`,
+  });
+
+  return Object.assign(formatter, { withExamples });
+};
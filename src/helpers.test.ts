@@ -1,5 +1,11 @@
+import { z } from "zod";
 import { describe, expect, test } from "@jest/globals";
-import { extractLastJSON } from "./helpers";
+import {
+  extractJSON,
+  extractLastJSON,
+  parsePartialJSON,
+  repairJSON,
+} from "./helpers";
 
 interface SimpleType {
   a: number;
@@ -131,3 +137,155 @@ string
     }
   });
 });
+
+describe("test partial JSON parsing", () => {
+  test("complete object", async () => {
+    expect(parsePartialJSON(`{ "a": 540, "b": 45 }`)).toEqual(expected);
+  });
+
+  test("ignores leading text and code fences", async () => {
+    expect(
+      parsePartialJSON('Sure!\n```json\n{ "a": 540, "b": 45 }\n```'),
+    ).toEqual(expected);
+  });
+
+  test("unterminated string", async () => {
+    expect(parsePartialJSON(`{ "a": 540, "c": { "d": "h`)).toEqual({
+      a: 540,
+      c: { d: "h" },
+    });
+  });
+
+  test("dangling key and literal", async () => {
+    expect(parsePartialJSON(`{ "a": 540, "b"`)).toEqual({ a: 540 });
+    expect(parsePartialJSON(`{ "a": 540, "b": tr`)).toEqual({ a: 540 });
+  });
+
+  test("partial array", async () => {
+    expect(parsePartialJSON(`{ "a": [1, 2, `)).toEqual({ a: [1, 2] });
+  });
+
+  test("escape at end of chunk", async () => {
+    expect(parsePartialJSON(`{ "d": "say \\`)).toEqual({ d: "say " });
+  });
+
+  test("no JSON yet", async () => {
+    expect(parsePartialJSON("Here is")).toBeUndefined();
+  });
+});
+
+describe("test JSON extraction strategies", () => {
+  test("braces inside strings", async () => {
+    const actual = extractJSON(`Here you go: { "a": 540, "b": 45, "c": "}{" }`);
+
+    expect(actual).not.toBeNull();
+    expect(JSON.parse(actual!)).toEqual({ a: 540, b: 45, c: "}{" });
+  });
+
+  test("top-level array", async () => {
+    const actual = extractJSON(`The cities are:
+[{ "name": "Paris" }, { "name": "Tokyo" }]`);
+
+    expect(JSON.parse(actual!)).toEqual([{ name: "Paris" }, { name: "Tokyo" }]);
+  });
+
+  test("primitives", async () => {
+    expect(extractJSON("42")).toBe("42");
+    expect(extractJSON(` "hello" `)).toBe(`"hello"`);
+    expect(extractJSON("```json\ntrue\n```")).toBe("true");
+  });
+
+  test("prefers fenced blocks", async () => {
+    const input = `\`\`\`json
+{ "a": 540, "b": 45 }
+\`\`\`
+Note that { "a": 1 } would also be valid.`;
+
+    runAssertions(extractJSON(input));
+    runAssertions(extractJSON(input, { strategy: "fenced" }));
+    expect(JSON.parse(extractJSON(input, { strategy: "last" })!)).toEqual({
+      a: 1,
+    });
+  });
+
+  test("fenced strategy without fences", async () => {
+    expect(
+      extractJSON(`{ "a": 540, "b": 45 }`, { strategy: "fenced" }),
+    ).toBeNull();
+  });
+
+  test("raw strategy", async () => {
+    runAssertions(extractJSON(` { "a": 540, "b": 45 }\n`, { strategy: "raw" }));
+    expect(extractJSON(`Sure! { "a": 540 }`, { strategy: "raw" })).toBe(
+      `Sure! { "a": 540 }`,
+    );
+  });
+
+  test("skips brackets in prose", async () => {
+    runAssertions(
+      extractJSON(
+        `As noted in [1) the result is { "a": 540, "b": 45 } [citation needed]`,
+      ),
+    );
+  });
+
+  test("prefers values the schema accepts over trailing citations", async () => {
+    const input = `{"capitol": "Washington, D.C."} [1]`;
+    const schema = z.object({ capitol: z.string() });
+
+    expect(extractJSON(input)).toBe("[1]");
+    expect(
+      extractJSON(input, {
+        accepts: (value) => schema.safeParse(value).success,
+      }),
+    ).toBe(`{"capitol": "Washington, D.C."}`);
+    expect(extractJSON("```json\n[1]\n```", { accepts: () => false })).toBe(
+      "[1]",
+    );
+  });
+
+  test("looks past fenced values the schema rejects", async () => {
+    const schema = z.object({ str: z.string() });
+    const accepts = (value: unknown) => schema.safeParse(value).success;
+
+    expect(
+      extractJSON('```json\n[1]\n```\nSo the answer is {"str": "x"}', {
+        accepts,
+      }),
+    ).toBe(`{"str": "x"}`);
+    expect(extractJSON("```json\n[1]\n```\nSee [2]", { accepts })).toBe("[1]");
+  });
+
+  test("invalid JSON is returned for error reporting", async () => {
+    expect(extractJSON(`{ "a": 540, "b": 45, }`)).toBe(
+      `{ "a": 540, "b": 45, }`,
+    );
+    expect(extractJSON("no json here")).toBeNull();
+  });
+
+  test("lenient repair", async () => {
+    const input = `\`\`\`json
+{
+  // the first number
+  a: 540,
+  'b': 45, /* the second number */
+  "c": ['it\\'s', "say \\"hi\\"",],
+}
+\`\`\``;
+
+    expect(extractJSON(input)).toBe(input.split("\n").slice(1, -1).join("\n"));
+
+    const actual = extractJSON(input, { lenient: true });
+    expect(JSON.parse(actual!)).toEqual({
+      a: 540,
+      b: 45,
+      c: ["it's", `say "hi"`],
+    });
+  });
+
+  test("lenient repair leaves strings alone", async () => {
+    expect(repairJSON(`{"url": "http://example.com/*x*/", "k": "a, }"}`)).toBe(
+      `{"url": "http://example.com/*x*/", "k": "a, }"}`,
+    );
+  });
+});
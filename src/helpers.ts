@@ -1,26 +1,333 @@
+import { ElelemExtractionStrategy, ElelemMessage } from "./types";
+
+export interface ExtractJSONOptions {
+  strategy?: ElelemExtractionStrategy;
+  // repairs JSON5-style output (comments, trailing commas, single quotes, unquoted keys) before parsing
+  lenient?: boolean;
+  // candidates it rejects give way to earlier ones, e.g. a trailing citation after the answer
+  accepts?: (value: unknown) => boolean;
+}
+
+const CLOSERS: { [opener: string]: string } = { "{": "}", "[": "]" };
+
+// returns the index of the bracket closing the value opened at start, or -1 if it never closes
+function scanValue(input: string, start: number, lenient: boolean): number {
+  const stack: string[] = [];
+  let quote: string | null = null;
+  let escaped = false;
+
+  for (let i = start; i < input.length; i++) {
+    const char = input[i];
+
+    if (quote !== null) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || (lenient && char === "'")) {
+      quote = char;
+    } else if (lenient && char === "/" && input[i + 1] === "/") {
+      const end = input.indexOf("\n", i);
+      i = end === -1 ? input.length : end;
+    } else if (lenient && char === "/" && input[i + 1] === "*") {
+      const end = input.indexOf("*/", i + 2);
+      i = end === -1 ? input.length : end + 1;
+    } else if (char in CLOSERS) {
+      stack.push(CLOSERS[char]);
+    } else if (char === "}" || char === "]") {
+      if (stack.pop() !== char) {
+        return -1;
+      }
+
+      if (stack.length === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
+
+// finds every top-level object or array in the input, skipping brackets that never close
+function scanValues(input: string, lenient: boolean): string[] {
+  const values: string[] = [];
+
+  for (let i = 0; i < input.length; i++) {
+    if (input[i] in CLOSERS) {
+      const end = scanValue(input, i, lenient);
+
+      if (end !== -1) {
+        values.push(input.substring(i, end + 1));
+        i = end;
+      }
+    }
+  }
+
+  return values;
+}
+
+function fencedBlocks(input: string): string[] {
+  return Array.from(
+    input.matchAll(/```[a-zA-Z0-9]*[^\S\n]*\n?([\s\S]*?)```/g),
+    (match) => match[1],
+  );
+}
+
+// converts JSON5-style text into strict JSON, leaving anything it doesn't recognize untouched
+export function repairJSON(input: string): string {
+  let output = "";
+  let i = 0;
+
+  const lastSignificant = () => output.trimEnd().slice(-1);
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === '"' || char === "'") {
+      let value = "";
+      let j = i + 1;
+
+      for (; j < input.length && input[j] !== char; j++) {
+        if (input[j] === "\\" && j + 1 < input.length) {
+          // single quotes don't need escaping once the string is double quoted
+          value += input[j + 1] === "'" ? "'" : input[j] + input[j + 1];
+          j++;
+        } else if (input[j] === '"') {
+          value += '\\"';
+        } else if (input[j] === "\n") {
+          value += "\\n";
+        } else {
+          value += input[j];
+        }
+      }
+
+      output += `"${value}"`;
+      i = j + 1;
+    } else if (char === "/" && input[i + 1] === "/") {
+      const end = input.indexOf("\n", i);
+      i = end === -1 ? input.length : end;
+    } else if (char === "/" && input[i + 1] === "*") {
+      const end = input.indexOf("*/", i + 2);
+      i = end === -1 ? input.length : end + 2;
+    } else if (char === "}" || char === "]") {
+      output = output.trimEnd();
+
+      if (output.endsWith(",")) {
+        output = output.slice(0, -1);
+      }
+
+      output += char;
+      i++;
+    } else if (
+      /[A-Za-z_$]/.test(char) &&
+      ["{", ","].includes(lastSignificant())
+    ) {
+      const identifier = input.substring(i).match(/^[A-Za-z_$][\w$]*/)![0];
+      const rest = input.substring(i + identifier.length);
+
+      output += /^\s*:/.test(rest) ? `"${identifier}"` : identifier;
+      i += identifier.length;
+    } else {
+      output += char;
+      i++;
+    }
+  }
+
+  return output;
+}
+
+// returns the candidate as valid JSON text, or null if it can't be parsed
+function toValidJSON(candidate: string, lenient: boolean): string | null {
+  const trimmed = candidate.trim();
+
+  if (trimmed.length === 0) {
+    return null;
+  }
+
+  try {
+    JSON.parse(trimmed);
+    return trimmed;
+  } catch (e) {
+    if (!lenient) {
+      return null;
+    }
+  }
+
+  try {
+    const repaired = repairJSON(trimmed);
+    JSON.parse(repaired);
+    return repaired;
+  } catch (e) {
+    return null;
+  }
+}
+
+const isAccepted = (
+  json: string,
+  accepts: ((value: unknown) => boolean) | undefined,
+): boolean => accepts === undefined || accepts(JSON.parse(json));
+
+// prefers the last accepted top-level object or array, then the last valid one, then the whole input as a primitive
+function extractFromText(
+  input: string,
+  lenient: boolean,
+  accepts: ((value: unknown) => boolean) | undefined,
+): string | null {
+  const values = scanValues(input, lenient);
+  let fallback: string | null = null;
+
+  for (let i = values.length - 1; i >= 0; i--) {
+    const json = toValidJSON(values[i], lenient);
+
+    if (json !== null) {
+      if (isAccepted(json, accepts)) {
+        return json;
+      }
+
+      fallback ??= json;
+    }
+  }
+
+  return fallback ?? toValidJSON(input, lenient);
+}
+
+/**
+ * Extracts a JSON value from an LLM response.
+ *
+ * "auto" prefers fenced code blocks and falls back to the last JSON value in the text
+ * "fenced" only considers fenced code blocks
+ * "last" ignores fences and takes the last JSON value in the text
+ * "raw" expects the whole response to be JSON, which is what tool calls and structured outputs return
+ *
+ * With accepts, e.g. a schema check, earlier values it accepts win over later ones it rejects.
+ * If nothing parses, the last object or array found is returned as-is so the parse error can be reported.
+ */
+export function extractJSON(
+  input: string,
+  options: ExtractJSONOptions = {},
+): string | null {
+  const strategy = options.strategy || "auto";
+  const lenient = options.lenient || false;
+
+  if (strategy === "raw") {
+    return toValidJSON(input, lenient) ?? (input.trim() || null);
+  }
+
+  let fallback: string | null = null;
+
+  if (strategy === "auto" || strategy === "fenced") {
+    const blocks = fencedBlocks(input);
+
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      const json = extractFromText(blocks[i], lenient, options.accepts);
+
+      if (json !== null) {
+        if (isAccepted(json, options.accepts)) {
+          return json;
+        }
+
+        fallback ??= json;
+      }
+    }
+
+    if (strategy === "fenced") {
+      return fallback;
+    }
+  }
+
+  const json = extractFromText(input, lenient, options.accepts);
+
+  // a rejected fenced value only wins when nothing in the rest of the text is accepted either
+  if (
+    json !== null &&
+    (fallback === null || isAccepted(json, options.accepts))
+  ) {
+    return json;
+  }
+
+  if (fallback !== null) {
+    return fallback;
+  }
+
+  const values = scanValues(input, lenient);
+  return values.length > 0 ? values[values.length - 1] : null;
+}
+
 export function extractLastJSON(input: string): string | null {
-  let bracketsCount = 0;
-  let lastIndex = -1;
-  let firstIndex = -1;
+  return extractJSON(input, { strategy: "last" });
+}
+
+// Parses a JSON value that may still be streaming in by closing any open strings, arrays, and objects.
+// Incomplete keys and literals are dropped, so the result only contains values that have started to arrive.
+export function parsePartialJSON(input: string): unknown | undefined {
+  const start = input.search(/[[{]/);
 
-  for (let i = input.length - 1; i >= 0; i--) {
-    if (input[i] === "}") {
-      if (lastIndex === -1) {
-        lastIndex = i;
+  if (start === -1) {
+    return undefined;
+  }
+
+  const text = input.substring(start);
+
+  // closers[i] holds the characters needed to close the prefix text[0..i)
+  const closers: string[] = [""];
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === "\\") {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
       }
-      bracketsCount++;
-    } else if (input[i] === "{") {
-      bracketsCount--;
-      if (bracketsCount === 0) {
-        firstIndex = i;
-        break;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      stack.push("}");
+    } else if (char === "[") {
+      stack.push("]");
+    } else if (char === "}" || char === "]") {
+      stack.pop();
+
+      if (stack.length === 0) {
+        try {
+          return JSON.parse(text.substring(0, i + 1));
+        } catch (e) {
+          return undefined;
+        }
       }
     }
+
+    closers.push(
+      (inString && !escaped ? '"' : "") + [...stack].reverse().join(""),
+    );
   }
 
-  if (firstIndex !== -1 && lastIndex !== -1) {
-    return input.substring(firstIndex, lastIndex + 1);
+  for (let end = text.length; end > 0; end--) {
+    try {
+      return JSON.parse(text.substring(0, end) + closers[end]);
+    } catch (e) {
+      // keep trimming until the prefix closes into valid JSON
+    }
   }
 
-  return null;
+  return undefined;
+}
+
+export function toMessages(
+  userPrompt: string | ElelemMessage[],
+): ElelemMessage[] {
+  if (typeof userPrompt === "string") {
+    return [{ role: "user", content: userPrompt }];
+  } else {
+    return userPrompt;
+  }
 }
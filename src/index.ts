@@ -1,3 +1,6 @@
 export { elelem } from "./elelem";
+export * from "./aggregators";
 export * from "./formatters";
+export * from "./prompts";
+export * from "./providers";
 export * from "./types";
@@ -0,0 +1,110 @@
+import { z } from "zod";
+import { describe, expect, test } from "@jest/globals";
+import { elelem } from "./elelem";
+import { NullFormatter } from "./formatters";
+import { definePrompt } from "./prompts";
+
+const capitolPrompt = definePrompt({
+  name: "capitol",
+  version: "1",
+  variables: z.object({ country: z.string(), hints: z.array(z.string()) }),
+  system: "You are a tour guide for {{ country }}.",
+  user: "What is the capitol of {{country}}? Hints: {{hints}}",
+});
+
+describe("prompt templates", () => {
+  test("interpolates variables", () => {
+    expect(
+      capitolPrompt.render({ country: "France", hints: ["Paris"] }),
+    ).toEqual({
+      systemPrompt: "You are a tour guide for France.",
+      userPrompt: `What is the capitol of France? Hints: ["Paris"]`,
+    });
+  });
+
+  test("renders with functions", () => {
+    const chatPrompt = definePrompt({
+      name: "chat",
+      version: "1",
+      variables: z.object({ question: z.string() }),
+      system: ({ question }) => `Answer in ${question.length} words or less.`,
+      user: ({ question }) => [
+        { role: "user", content: "Hi" },
+        { role: "assistant", content: "Hello!" },
+        { role: "user", content: question },
+      ],
+    });
+
+    const { systemPrompt, userPrompt } = chatPrompt.render({
+      question: "Why?",
+    });
+
+    expect(systemPrompt).toBe("Answer in 4 words or less.");
+    expect(userPrompt).toHaveLength(3);
+  });
+
+  test("rejects invalid variables", () => {
+    expect(() =>
+      capitolPrompt.render({ country: 1 } as unknown as {
+        country: string;
+        hints: string[];
+      }),
+    ).toThrow("Invalid variables for the capitol@1 prompt template");
+
+    const missing = definePrompt({
+      name: "missing",
+      version: "1",
+      variables: z.object({}),
+      system: "{{nothing}}",
+      user: "",
+    });
+
+    expect(() => missing.render({})).toThrow("Missing variable nothing");
+  });
+
+  test("generates from a template and caches by version", async () => {
+    const requests: string[] = [];
+
+    const llm = elelem.init({
+      cache: { memory: true },
+      providers: {
+        counting: {
+          formatRequest: (systemPromptWithFormat, userPrompt) =>
+            `${systemPromptWithFormat}|${userPrompt}`,
+          call: async (request: string) => {
+            requests.push(request);
+            return JSON.stringify({ capitol: "Paris" });
+          },
+          extractResponse: (response: string) => response,
+          extractUsage: () => undefined,
+          estimateCost: () => 0,
+        },
+      },
+    });
+
+    const generateWith = (template: typeof capitolPrompt) =>
+      llm.session("templates", {}, async (c) => {
+        const { result } = await c.generate(
+          "counting",
+          "capitol",
+          {},
+          template,
+          { country: "France", hints: [] },
+          z.object({ capitol: z.string() }),
+          NullFormatter,
+        );
+        return result;
+      });
+
+    expect((await generateWith(capitolPrompt)).result).toEqual({
+      capitol: "Paris",
+    });
+    await generateWith(capitolPrompt);
+    await generateWith({ ...capitolPrompt, version: "2" });
+
+    expect(requests).toEqual([
+      "You are a tour guide for France.\n|What is the capitol of France? Hints: []",
+      "You are a tour guide for France.\n|What is the capitol of France? Hints: []",
+    ]);
+  });
+});
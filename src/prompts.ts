@@ -0,0 +1,59 @@
+import {
+  ElelemMessage,
+  ElelemPromptTemplate,
+  ElelemPromptTemplateConfig,
+} from "./types";
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+const interpolate = (
+  template: string,
+  variables: Record<string, unknown>,
+  templateName: string,
+): string =>
+  template.replace(PLACEHOLDER, (_match, name: string) => {
+    const value = variables[name];
+
+    if (value === undefined) {
+      throw new Error(
+        `Missing variable ${name} for the ${templateName} prompt template!`,
+      );
+    }
+
+    return typeof value === "string" ? value : JSON.stringify(value);
+  });
+
+export const definePrompt = <V>(
+  config: ElelemPromptTemplateConfig<V>,
+): ElelemPromptTemplate<V> => {
+  const templateName = `${config.name}@${config.version}`;
+
+  return {
+    name: config.name,
+    version: config.version,
+    variables: config.variables,
+    render: (variables: V) => {
+      const parsed = config.variables.safeParse(variables);
+
+      if (!parsed.success) {
+        throw new Error(
+          `Invalid variables for the ${templateName} prompt template: ${parsed.error.toString()}`,
+        );
+      }
+
+      const values = parsed.data as Record<string, unknown>;
+
+      const systemPrompt =
+        typeof config.system === "string"
+          ? interpolate(config.system, values, templateName)
+          : config.system(parsed.data);
+
+      const userPrompt: string | ElelemMessage[] =
+        typeof config.user === "string"
+          ? interpolate(config.user, values, templateName)
+          : config.user(parsed.data);
+
+      return { systemPrompt, userPrompt };
+    },
+  };
+};
@@ -0,0 +1,633 @@
+import { createServer, IncomingMessage, Server } from "http";
+import { AddressInfo } from "net";
+import Anthropic from "@anthropic-ai/sdk";
+import { MessageCreateParamsNonStreaming } from "@anthropic-ai/sdk/resources/messages";
+import OpenAI from "openai";
+import { ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
+import { CohereClient } from "cohere-ai";
+import { z } from "zod";
+import {
+  describe,
+  expect,
+  test,
+  beforeAll,
+  beforeEach,
+  afterAll,
+} from "@jest/globals";
+import { majorityVote } from "./aggregators";
+import { elelem } from "./elelem";
+import { JsonSchemaAndExampleFormatter } from "./formatters";
+import { openAICompatibleProvider, toStrictJsonSchema } from "./providers";
+import { ElelemRefusalError } from "./types";
+
+const capitolResponseSchema = z.object({
+  capitol: z.string(),
+});
+
+const readBody = async (req: IncomingMessage): Promise<string> => {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+  }
+  return body;
+};
+
+// stands in for the Anthropic Messages API so the provider can be tested without network access
+describe("anthropic", () => {
+  let server: Server;
+  let baseURL: string;
+  const requests: { path: string; body: MessageCreateParamsNonStreaming }[] =
+    [];
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      requests.push({
+        path: req.url || "",
+        body: JSON.parse(await readBody(req)),
+      });
+
+      res.setHeader("content-type", "application/json");
+      res.end(
+        JSON.stringify({
+          id: "msg_test",
+          type: "message",
+          role: "assistant",
+          model: "claude-3-5-sonnet-20241022",
+          content: [{ type: "text", text: `{"capitol": "Washington, D.C."}` }],
+          stop_reason: "end_turn",
+          stop_sequence: null,
+          usage: { input_tokens: 1000, output_tokens: 100 },
+        }),
+      );
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("messages api", async () => {
+    const llm = elelem.init({
+      anthropic: new Anthropic({ apiKey: "test", baseURL }),
+    });
+
+    const { result, usage } = await llm.session(
+      "anthropic-example",
+      { anthropic: { model: "claude-3-5-sonnet-20241022", max_tokens: 100 } },
+      async (c) => {
+        const { result } = await c.anthropic(
+          "capitol",
+          { temperature: 0 },
+          `What is the capitol of the country provided?`,
+          [
+            { role: "system", content: "Answer in English." },
+            { role: "user", content: "USA" },
+          ],
+          capitolResponseSchema,
+          JsonSchemaAndExampleFormatter,
+        );
+
+        return result;
+      },
+    );
+
+    expect(result.capitol).toBe("Washington, D.C.");
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].path).toBe("/v1/messages");
+    expect(requests[0].body.system).toContain(
+      "What is the capitol of the country provided?",
+    );
+    expect(requests[0].body.system).toContain("Answer in English.");
+    expect(requests[0].body.messages).toEqual([
+      { role: "user", content: "USA" },
+    ]);
+    expect(requests[0].body.max_tokens).toBe(100);
+    expect(requests[0].body.temperature).toBe(0);
+
+    expect(usage.prompt_tokens).toBe(1000);
+    expect(usage.completion_tokens).toBe(100);
+    expect(usage.total_tokens).toBe(1100);
+    expect(usage.cost_usd).toBeCloseTo(0.0045);
+  });
+});
+
+// stands in for the Cohere generate API, which reports usage as billed units
+describe("cohere", () => {
+  let server: Server;
+  let baseURL: string;
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      await readBody(req);
+
+      res.setHeader("content-type", "application/json");
+      res.end(
+        JSON.stringify({
+          id: "generation_test",
+          generations: [{ id: "1", text: `{"capitol": "Washington, D.C."}` }],
+          meta: {
+            api_version: { version: "1" },
+            billed_units: { input_tokens: 1000, output_tokens: 100 },
+          },
+        }),
+      );
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("usage from billed units", async () => {
+    const llm = elelem.init({
+      cohere: new CohereClient({ token: "test", environment: baseURL }),
+    });
+
+    const { result, usage } = await llm.session(
+      "cohere-example",
+      { cohere: { model: "command" } },
+      async (c) => {
+        const { result, usage } = await c.cohere(
+          "capitol",
+          { temperature: 0 },
+          `What is the capitol of the country provided?`,
+          "USA",
+          capitolResponseSchema,
+          JsonSchemaAndExampleFormatter,
+        );
+
+        expect(usage.total_tokens).toBe(1100);
+
+        return result;
+      },
+    );
+
+    expect(result.capitol).toBe("Washington, D.C.");
+
+    expect(usage.prompt_tokens).toBe(1000);
+    expect(usage.completion_tokens).toBe(100);
+    expect(usage.total_tokens).toBe(1100);
+    // $1 / $2 per million tokens for command
+    expect(usage.cost_usd).toBeCloseTo(0.0012);
+  });
+});
+
+// stands in for an ollama / vllm server that doesn't report usage
+describe("openai-compatible", () => {
+  let server: Server;
+  let baseURL: string;
+  const requests: {
+    path: string;
+    body: ChatCompletionCreateParamsNonStreaming;
+  }[] = [];
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const body: ChatCompletionCreateParamsNonStreaming = JSON.parse(
+        await readBody(req),
+      );
+      requests.push({ path: req.url || "", body });
+
+      res.setHeader("content-type", "application/json");
+      res.end(
+        JSON.stringify({
+          id: "chatcmpl-test",
+          object: "chat.completion",
+          created: 0,
+          model: "llama3",
+          choices: [
+            {
+              index: 0,
+              finish_reason: "stop",
+              message: body.tools
+                ? {
+                    role: "assistant",
+                    content: null,
+                    tool_calls: [
+                      {
+                        id: "call_test",
+                        type: "function",
+                        function: {
+                          name: "output",
+                          arguments: `{"capitol": "Washington, D.C."}`,
+                        },
+                      },
+                    ],
+                  }
+                : {
+                    role: "assistant",
+                    content: `{"capitol": "Washington, D.C."}`,
+                  },
+            },
+          ],
+        }),
+      );
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("user prompt style with token counting", async () => {
+    const llm = elelem.init({
+      providers: {
+        local: openAICompatibleProvider({
+          baseURL,
+          promptStyle: "user",
+          countTokens: (text) => text.split(" ").length,
+        }),
+      },
+    });
+
+    const { result, usage } = await llm.session(
+      "openai-compatible-example",
+      { local: { model: "llama3" } },
+      async (c) => {
+        const { result } = await c.generate(
+          "local",
+          "capitol",
+          { temperature: 0 },
+          `What is the capitol of the country provided?`,
+          "USA",
+          capitolResponseSchema,
+          JsonSchemaAndExampleFormatter,
+        );
+
+        return result;
+      },
+    );
+
+    expect(result.capitol).toBe("Washington, D.C.");
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].path).toBe("/v1/chat/completions");
+    expect(requests[0].body.model).toBe("llama3");
+    expect(requests[0].body.messages).toHaveLength(1);
+    expect(requests[0].body.messages[0].role).toBe("user");
+    const content = requests[0].body.messages[0].content as string;
+    expect(content).toMatch(/^What is the capitol of the country provided\?/);
+    expect(content).toMatch(/\n\nUSA$/);
+
+    expect(usage.prompt_tokens).toBe(content.split(" ").length);
+    expect(usage.completion_tokens).toBe(3);
+    expect(usage.total_tokens).toBe(
+      usage.prompt_tokens + usage.completion_tokens,
+    );
+    expect(usage.cost_usd).toBe(0);
+  });
+
+  test("counts tool call arguments as completion tokens", async () => {
+    const llm = elelem.init({
+      providers: {
+        local: openAICompatibleProvider({
+          baseURL,
+          countTokens: (text) => text.split(" ").length,
+        }),
+      },
+    });
+
+    const { result, usage } = await llm.session(
+      "openai-compatible-example",
+      { local: { model: "llama3" } },
+      async (c) => {
+        const { result } = await c.generate(
+          "local",
+          "capitol-tool",
+          { temperature: 0 },
+          `What is the capitol of the country provided?`,
+          "USA",
+          capitolResponseSchema,
+          JsonSchemaAndExampleFormatter,
+          { outputMode: "tool" },
+        );
+
+        return result;
+      },
+    );
+
+    expect(result.capitol).toBe("Washington, D.C.");
+    expect(usage.completion_tokens).toBe(3);
+  });
+});
+
+// stands in for the OpenAI chat completions api
+describe("openai output modes", () => {
+  let server: Server;
+  let baseURL: string;
+  let requests: {
+    path: string;
+    body: ChatCompletionCreateParamsNonStreaming;
+  }[] = [];
+  let message: object = {};
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      requests.push({
+        path: req.url || "",
+        body: JSON.parse(await readBody(req)),
+      });
+
+      res.setHeader("content-type", "application/json");
+      res.end(
+        JSON.stringify({
+          id: "chatcmpl-test",
+          object: "chat.completion",
+          created: 0,
+          model: "gpt-4o",
+          choices: [
+            {
+              index: 0,
+              finish_reason: "stop",
+              message: { role: "assistant", content: null, ...message },
+            },
+          ],
+          usage: { prompt_tokens: 50, completion_tokens: 10, total_tokens: 60 },
+        }),
+      );
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("forced tool call", async () => {
+    let formatterCalls = 0;
+
+    message = {
+      tool_calls: [
+        {
+          id: "call_test",
+          type: "function",
+          function: {
+            name: "output",
+            arguments: `{"capitol": "Washington, D.C."}`,
+          },
+        },
+      ],
+    };
+
+    const llm = elelem.init({
+      openai: new OpenAI({ apiKey: "test", baseURL }),
+    });
+
+    const { result } = await llm.session(
+      "tool-output-example",
+      { openai: { model: "gpt-4o" } },
+      async (c) => {
+        const { result } = await c.openai(
+          "capitol",
+          { temperature: 0 },
+          `What is the capitol of the country provided?`,
+          "USA",
+          capitolResponseSchema,
+          (schema) => {
+            formatterCalls += 1;
+            return JsonSchemaAndExampleFormatter(schema);
+          },
+          { outputMode: "tool" },
+        );
+
+        return result;
+      },
+    );
+
+    expect(result.capitol).toBe("Washington, D.C.");
+    expect(formatterCalls).toBe(0);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body.messages[0]).toEqual({
+      role: "system",
+      content: "What is the capitol of the country provided?",
+    });
+    expect(requests[0].body.tool_choice).toEqual({
+      type: "function",
+      function: { name: "output" },
+    });
+    expect(requests[0].body.tools?.[0].function.parameters?.properties).toEqual(
+      {
+        capitol: { type: "string" },
+      },
+    );
+  });
+
+  test("strict structured outputs", async () => {
+    const citySchema = z.object({
+      name: z.string().min(1),
+      nickname: z.string().optional(),
+      population: z.number().int().positive(),
+    });
+
+    message = {
+      content: `{"name": "Washington, D.C.", "nickname": null, "population": 700000}`,
+    };
+
+    const llm = elelem.init({
+      openai: new OpenAI({ apiKey: "test", baseURL }),
+    });
+
+    const { result } = await llm.session(
+      "json-schema-output-example",
+      { openai: { model: "gpt-4o" } },
+      async (c) => {
+        const { result } = await c.openai(
+          "city",
+          { temperature: 0 },
+          `Describe the capitol of the country provided.`,
+          "USA",
+          citySchema,
+          JsonSchemaAndExampleFormatter,
+          { outputMode: "json_schema" },
+        );
+
+        return result;
+      },
+    );
+
+    expect(result).toEqual({ name: "Washington, D.C.", population: 700000 });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body.response_format).toEqual({
+      type: "json_schema",
+      json_schema: {
+        name: "output",
+        strict: true,
+        schema: toStrictJsonSchema(citySchema),
+      },
+    });
+  });
+
+  test("refusal", async () => {
+    message = { refusal: "I can't help with that." };
+
+    const llm = elelem.init({
+      openai: new OpenAI({ apiKey: "test", baseURL }),
+    });
+
+    const session = llm.session(
+      "refusal-example",
+      { openai: { model: "gpt-4o" } },
+      async (c) => {
+        return await c.openai(
+          "capitol",
+          { temperature: 0.5 },
+          `What is the capitol of the country provided?`,
+          "USA",
+          capitolResponseSchema,
+          JsonSchemaAndExampleFormatter,
+          { outputMode: "json_schema" },
+        );
+      },
+    );
+
+    await expect(session).rejects.toThrowError(ElelemRefusalError);
+    await session.catch((e) => {
+      expect(e.refusal).toBe("I can't help with that.");
+      expect(e.usage.total_tokens).toBe(60);
+    });
+
+    // refusals aren't retried
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe("openai sampling", () => {
+  let server: Server;
+  let baseURL: string;
+  const requests: {
+    path: string;
+    body: ChatCompletionCreateParamsNonStreaming;
+  }[] = [];
+  const contents = [
+    `{"capitol": "Washington, D.C."}`,
+    `{"capitol": "New York"}`,
+    `not json`,
+    `{"capitol": "Washington, D.C."}`,
+  ];
+
+  beforeAll(async () => {
+    server = createServer(async (req, res) => {
+      const body: ChatCompletionCreateParamsNonStreaming = JSON.parse(
+        await readBody(req),
+      );
+      requests.push({ path: req.url || "", body });
+
+      res.setHeader("content-type", "application/json");
+      res.end(
+        JSON.stringify({
+          id: "chatcmpl-test",
+          object: "chat.completion",
+          created: 0,
+          model: "gpt-4o",
+          choices: contents.slice(0, body.n ?? 1).map((content, index) => ({
+            index,
+            finish_reason: "stop",
+            message: { role: "assistant", content },
+          })),
+          usage: { prompt_tokens: 50, completion_tokens: 40, total_tokens: 90 },
+        }),
+      );
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  test("samples with n and votes", async () => {
+    const llm = elelem.init({
+      openai: new OpenAI({ apiKey: "test", baseURL }),
+    });
+
+    const { result } = await llm.session(
+      "sampling-example",
+      { openai: { model: "gpt-4o" } },
+      async (c) =>
+        await c.ensemble(
+          "capitol",
+          [
+            {
+              provider: "openai",
+              modelOptions: { temperature: 1 },
+              samples: 4,
+            },
+          ],
+          `What is the capitol of the country provided?`,
+          "USA",
+          capitolResponseSchema,
+          JsonSchemaAndExampleFormatter,
+          majorityVote(),
+        ),
+    );
+
+    expect(result.result).toEqual({ capitol: "Washington, D.C." });
+    expect(result.results).toHaveLength(3);
+    expect(result.agreement).toBeCloseTo(2 / 3);
+    expect(result.usage.total_tokens).toBe(90);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body.n).toBe(4);
+  });
+});
+
+describe("strict json schema conversion", () => {
+  test("objects", () => {
+    const schema = z.object({
+      name: z.string().min(1).default("unknown"),
+      tags: z.array(z.string()).max(3),
+      nested: z.object({ count: z.number().int().min(0) }).optional(),
+    });
+
+    expect(toStrictJsonSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        // defaults make properties optional on input
+        name: { anyOf: [{ type: "string" }, { type: "null" }] },
+        tags: { type: "array", items: { type: "string" } },
+        nested: {
+          anyOf: [
+            {
+              type: "object",
+              properties: { count: { type: "integer" } },
+              required: ["count"],
+              additionalProperties: false,
+            },
+            { type: "null" },
+          ],
+        },
+      },
+      required: ["name", "tags", "nested"],
+      additionalProperties: false,
+    });
+  });
+
+  test("non-object root", () => {
+    expect(toStrictJsonSchema(z.array(z.number()))).toEqual({
+      type: "object",
+      properties: { value: { type: "array", items: { type: "number" } } },
+      required: ["value"],
+      additionalProperties: false,
+    });
+  });
+});
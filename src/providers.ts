@@ -0,0 +1,546 @@
+import OpenAI from "openai";
+import type Anthropic from "@anthropic-ai/sdk";
+import {
+  Message,
+  MessageCreateParamsNonStreaming,
+} from "@anthropic-ai/sdk/resources/messages";
+import { CohereClient } from "cohere-ai";
+import { ApiMeta, GenerateRequest, Generation } from "cohere-ai/api";
+import {
+  ChatCompletion,
+  ChatCompletionCreateParamsNonStreaming,
+} from "openai/resources/chat/completions";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import {
+  ZodArray,
+  ZodDefault,
+  ZodEffects,
+  ZodNullable,
+  ZodObject,
+  ZodOptional,
+  ZodTypeAny,
+} from "zod";
+import {
+  ElelemMessage,
+  ElelemOutput,
+  ElelemProvider,
+  ElelemRefusalError,
+} from "./types";
+import { approximateTokenCount } from "./costs";
+import { toMessages } from "./helpers";
+
+export type OpenAIModelOptions = Omit<
+  ChatCompletionCreateParamsNonStreaming,
+  "messages"
+>;
+
+const OUTPUT_NAME = "output";
+
+// keywords that strict structured outputs reject; zod still enforces them when the response is parsed
+const UNSUPPORTED_STRICT_KEYWORDS = [
+  "$schema",
+  "default",
+  "format",
+  "pattern",
+  "minLength",
+  "maxLength",
+  "minimum",
+  "maximum",
+  "exclusiveMinimum",
+  "exclusiveMaximum",
+  "multipleOf",
+  "minItems",
+  "maxItems",
+  "uniqueItems",
+  "minProperties",
+  "maxProperties",
+  "patternProperties",
+];
+
+type JsonSchema = { [key: string]: unknown };
+
+const toStrictNode = (node: unknown): unknown => {
+  if (Array.isArray(node)) {
+    return node.map(toStrictNode);
+  } else if (typeof node !== "object" || node === null) {
+    return node;
+  }
+
+  const strict: JsonSchema = {};
+
+  for (const [key, value] of Object.entries(node)) {
+    if (!UNSUPPORTED_STRICT_KEYWORDS.includes(key)) {
+      strict[key] =
+        key === "properties"
+          ? Object.fromEntries(
+              Object.entries(value as JsonSchema).map(([name, property]) => [
+                name,
+                toStrictNode(property),
+              ]),
+            )
+          : toStrictNode(value);
+    }
+  }
+
+  if (strict.type === "object" && strict.properties !== undefined) {
+    const properties = strict.properties as JsonSchema;
+    const required = (strict.required as string[] | undefined) || [];
+
+    // every property has to be required, so optional properties are made nullable instead
+    for (const name of Object.keys(properties)) {
+      if (!required.includes(name)) {
+        properties[name] = { anyOf: [properties[name], { type: "null" }] };
+      }
+    }
+
+    strict.required = Object.keys(properties);
+    strict.additionalProperties = false;
+  }
+
+  return strict;
+};
+
+// function parameters and structured outputs have to be objects, so other schemas are wrapped in a "value" property
+const toOutputJsonSchema = (
+  output: ElelemOutput,
+): { jsonSchema: JsonSchema; wrapped: boolean } => {
+  const jsonSchema = zodToJsonSchema(output.schema, {
+    $refStrategy: "none",
+  }) as JsonSchema;
+  delete jsonSchema.$schema;
+
+  if (jsonSchema.type === "object") {
+    return { jsonSchema, wrapped: false };
+  } else {
+    return {
+      jsonSchema: {
+        type: "object",
+        properties: { value: jsonSchema },
+        required: ["value"],
+      },
+      wrapped: true,
+    };
+  }
+};
+
+// converts a zod schema into the subset of JSON Schema accepted by OpenAI's strict structured outputs
+export const toStrictJsonSchema = (schema: ZodTypeAny): JsonSchema => {
+  return toStrictNode(
+    toOutputJsonSchema({ mode: "json_schema", schema }).jsonSchema,
+  ) as JsonSchema;
+};
+
+// strict mode sends nulls for optional properties, which zod's optional() doesn't accept
+const stripNullOptionals = (schema: ZodTypeAny, value: unknown): unknown => {
+  if (schema instanceof ZodOptional || schema instanceof ZodNullable) {
+    return value === null ? value : stripNullOptionals(schema.unwrap(), value);
+  } else if (schema instanceof ZodDefault) {
+    return stripNullOptionals(schema.removeDefault(), value);
+  } else if (schema instanceof ZodEffects) {
+    return stripNullOptionals(schema.innerType(), value);
+  } else if (schema instanceof ZodArray && Array.isArray(value)) {
+    return value.map((item) => stripNullOptionals(schema.element, item));
+  } else if (
+    schema instanceof ZodObject &&
+    typeof value === "object" &&
+    value !== null
+  ) {
+    const shape = schema.shape as Record<string, ZodTypeAny>;
+
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(
+          ([key, property]) =>
+            !(
+              property === null &&
+              shape[key] !== undefined &&
+              shape[key].isOptional() &&
+              !shape[key].isNullable()
+            ),
+        )
+        .map(([key, property]) => [
+          key,
+          shape[key] === undefined
+            ? property
+            : stripNullOptionals(shape[key], property),
+        ]),
+    );
+  } else {
+    return value;
+  }
+};
+
+const toOutputOptions = (
+  output: ElelemOutput,
+): Pick<
+  ChatCompletionCreateParamsNonStreaming,
+  "tools" | "tool_choice" | "response_format"
+> => {
+  if (output.mode === "tool") {
+    return {
+      tools: [
+        {
+          type: "function",
+          function: {
+            name: OUTPUT_NAME,
+            description: "Respond with the output.",
+            parameters: toOutputJsonSchema(output).jsonSchema,
+          },
+        },
+      ],
+      tool_choice: { type: "function", function: { name: OUTPUT_NAME } },
+    };
+  } else if (output.mode === "json_schema") {
+    return {
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: OUTPUT_NAME,
+          strict: true,
+          schema: toStrictJsonSchema(output.schema),
+        },
+      },
+    };
+  } else {
+    return {};
+  }
+};
+
+const unwrapOutput = (output: ElelemOutput, response: string): string => {
+  const { wrapped } = toOutputJsonSchema(output);
+  let json = JSON.parse(response);
+
+  if (wrapped) {
+    json = json.value;
+  }
+
+  if (output.mode === "json_schema") {
+    json = stripNullOptionals(output.schema, json);
+  }
+
+  return JSON.stringify(json);
+};
+
+const extractOpenAIChoice = (
+  choice: ChatCompletion.Choice | undefined,
+  output: ElelemOutput,
+): string => {
+  if (choice?.message?.refusal) {
+    throw new ElelemRefusalError(choice.message.refusal);
+  }
+
+  if (output.mode === "tool") {
+    const toolCall = choice?.message?.tool_calls?.find(
+      (toolCall) => toolCall.function.name === OUTPUT_NAME,
+    );
+
+    if (toolCall === undefined) {
+      throw new Error("No tool call in response from api!");
+    }
+
+    return unwrapOutput(output, toolCall.function.arguments);
+  }
+
+  if (
+    choice !== undefined &&
+    choice.message !== undefined &&
+    choice.message.content !== undefined
+  ) {
+    if (choice.message.content === null) {
+      throw new Error("Null response from api!");
+    }
+
+    return output.mode === "json_schema"
+      ? unwrapOutput(output, choice.message.content)
+      : choice.message.content;
+  } else {
+    throw new Error("No chat response from api!");
+  }
+};
+
+const extractOpenAIResponse = (
+  chat: ChatCompletion,
+  output: ElelemOutput,
+): string => extractOpenAIChoice(chat.choices[0], output);
+
+// skips refused and empty choices, which are still billed
+const extractOpenAIResponses = (
+  chat: ChatCompletion,
+  output: ElelemOutput,
+): string[] =>
+  chat.choices.flatMap((choice) => {
+    try {
+      return [extractOpenAIChoice(choice, output)];
+    } catch {
+      return [];
+    }
+  });
+
+export const openAIProvider = (
+  openai: OpenAI,
+): ElelemProvider<
+  OpenAIModelOptions,
+  ChatCompletionCreateParamsNonStreaming,
+  ChatCompletion
+> => ({
+  outputModes: ["tool", "json_schema"],
+  formatRequest: (
+    systemPromptWithFormat,
+    userPrompt,
+    modelOptions,
+    output,
+  ) => ({
+    ...modelOptions,
+    ...toOutputOptions(output),
+    messages: [
+      { role: "system", content: systemPromptWithFormat },
+      ...toMessages(userPrompt),
+    ],
+  }),
+  call: async (request) => await openai.chat.completions.create(request),
+  extractResponse: extractOpenAIResponse,
+  extractUsage: (chat) => chat.usage,
+  sampling: {
+    withSamples: (modelOptions, samples) => ({ ...modelOptions, n: samples }),
+    extractResponses: extractOpenAIResponses,
+  },
+});
+
+export interface OpenAICompatibleProviderConfig {
+  // e.g. http://localhost:11434/v1 for ollama or http://localhost:8000/v1 for vllm
+  baseURL: string;
+  apiKey?: string;
+  // "user" prepends the system prompt to the first user turn for models whose chat templates lack a system role
+  promptStyle?: "system" | "user";
+  // used when the server omits usage; true approximates four characters per token
+  countTokens?: boolean | ((text: string) => number);
+}
+
+export const openAICompatibleProvider = (
+  config: OpenAICompatibleProviderConfig,
+): ElelemProvider<
+  OpenAIModelOptions,
+  ChatCompletionCreateParamsNonStreaming,
+  { request: ChatCompletionCreateParamsNonStreaming; chat: ChatCompletion }
+> => {
+  const openai = new OpenAI({
+    baseURL: config.baseURL,
+    // local servers generally ignore the key, but the client requires one
+    apiKey: config.apiKey || "not-needed",
+  });
+
+  const countTokens =
+    config.countTokens === true
+      ? approximateTokenCount
+      : config.countTokens || undefined;
+
+  return {
+    // only works with servers that support tool calling and structured outputs
+    outputModes: ["tool", "json_schema"],
+    formatRequest: (
+      systemPromptWithFormat,
+      userPrompt,
+      modelOptions,
+      output,
+    ) => {
+      const messages = toMessages(userPrompt);
+
+      if (config.promptStyle === "user") {
+        const firstUserTurn = messages.findIndex(
+          (message) => message.role === "user",
+        );
+
+        return {
+          ...modelOptions,
+          ...toOutputOptions(output),
+          messages:
+            firstUserTurn === -1
+              ? [...messages, { role: "user", content: systemPromptWithFormat }]
+              : messages.map((message, i) =>
+                  i === firstUserTurn
+                    ? {
+                        role: "user",
+                        content: `${systemPromptWithFormat}\n\n${message.content}`,
+                      }
+                    : message,
+                ),
+        };
+      } else {
+        return {
+          ...modelOptions,
+          ...toOutputOptions(output),
+          messages: [
+            { role: "system", content: systemPromptWithFormat },
+            ...messages,
+          ],
+        };
+      }
+    },
+    call: async (request) => ({
+      request,
+      chat: await openai.chat.completions.create(request),
+    }),
+    extractResponse: ({ chat }, output) => extractOpenAIResponse(chat, output),
+    extractUsage: ({ request, chat }) => {
+      if (chat.usage) {
+        return chat.usage;
+      } else if (countTokens === undefined) {
+        return undefined;
+      }
+
+      const prompt_tokens = request.messages
+        .map((message) =>
+          typeof message.content === "string"
+            ? countTokens(message.content)
+            : 0,
+        )
+        .reduce((a, b) => a + b, 0);
+      const message = chat.choices[0]?.message;
+      // tool calls come back without any content
+      const completion_tokens = [
+        ...(message?.content ? [message.content] : []),
+        ...(message?.tool_calls || []).map(
+          (toolCall) => toolCall.function.arguments,
+        ),
+      ]
+        .map((text) => countTokens(text))
+        .reduce((a, b) => a + b, 0);
+
+      return {
+        prompt_tokens,
+        completion_tokens,
+        total_tokens: prompt_tokens + completion_tokens,
+      };
+    },
+    // self-hosted models don't have per-token pricing
+    estimateCost: () => 0,
+  };
+};
+
+export type CohereModelOptions = Omit<GenerateRequest, "prompt"> & {
+  max_tokens: number;
+};
+
+// since cohere doesn't have actual system prompts, it has trouble identifying where the input starts
+const toCoherePrompt = (userPrompt: string | ElelemMessage[]): string => {
+  return toMessages(userPrompt)
+    .map((message) => {
+      switch (message.role) {
+        case "user":
+          return `\nInput: ${message.content}`;
+        case "assistant":
+          return `\nOutput: ${message.content}`;
+        case "system":
+          return `\n${message.content}`;
+      }
+    })
+    .join("");
+};
+
+interface CohereBilledUnits {
+  input_tokens?: number;
+  output_tokens?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+// this version of the sdk doesn't type billed_units and passes it through as-is, while newer versions camel-case it
+const toCohereBilledUnits = (
+  meta: ApiMeta | undefined,
+): CohereBilledUnits | undefined => {
+  const untypedMeta = meta as
+    | { billed_units?: CohereBilledUnits; billedUnits?: CohereBilledUnits }
+    | undefined;
+
+  return untypedMeta?.billed_units ?? untypedMeta?.billedUnits;
+};
+
+export const cohereProvider = (
+  cohere: CohereClient,
+): ElelemProvider<CohereModelOptions, GenerateRequest, Generation> => ({
+  defaultModelOptions: { max_tokens: 100 },
+  formatRequest: (systemPromptWithFormat, userPrompt, modelOptions) => ({
+    ...modelOptions,
+    prompt: `${systemPromptWithFormat}\n${toCoherePrompt(userPrompt)}`,
+  }),
+  call: async (request) => await cohere.generate(request),
+  extractResponse: (response) => {
+    if (response.generations.length === 0) {
+      throw new Error("No generation from API!");
+    }
+
+    return response.generations[0].text;
+  },
+  extractUsage: (response) => {
+    const billedUnits = toCohereBilledUnits(response.meta);
+
+    if (billedUnits === undefined) {
+      return undefined;
+    }
+
+    const prompt_tokens =
+      billedUnits.input_tokens ?? billedUnits.inputTokens ?? 0;
+    const completion_tokens =
+      billedUnits.output_tokens ?? billedUnits.outputTokens ?? 0;
+
+    return {
+      prompt_tokens,
+      completion_tokens,
+      total_tokens: prompt_tokens + completion_tokens,
+    };
+  },
+});
+
+export type AnthropicModelOptions = Omit<
+  MessageCreateParamsNonStreaming,
+  "messages" | "system"
+>;
+
+export const anthropicProvider = (
+  anthropic: Anthropic,
+): ElelemProvider<
+  AnthropicModelOptions,
+  MessageCreateParamsNonStreaming,
+  Message
+> => ({
+  defaultModelOptions: { max_tokens: 1024 },
+  formatRequest: (systemPromptWithFormat, userPrompt, modelOptions) => {
+    const messages = toMessages(userPrompt);
+
+    // the messages api only accepts user and assistant turns, so any system turns are folded into the system prompt
+    const system = [
+      systemPromptWithFormat,
+      ...messages
+        .filter((message) => message.role === "system")
+        .map((message) => message.content),
+    ].join("\n");
+
+    return {
+      ...modelOptions,
+      system,
+      messages: messages
+        .filter((message) => message.role !== "system")
+        .map((message) => ({
+          role: message.role === "assistant" ? "assistant" : "user",
+          content: message.content,
+        })),
+    };
+  },
+  call: async (request) => await anthropic.messages.create(request),
+  extractResponse: (message) => {
+    const text = message.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+
+    if (text.length === 0) {
+      throw new Error("No text response from api!");
+    }
+
+    return text;
+  },
+  extractUsage: (message) => ({
+    prompt_tokens: message.usage.input_tokens,
+    completion_tokens: message.usage.output_tokens,
+    total_tokens: message.usage.input_tokens + message.usage.output_tokens,
+  }),
+});
@@ -0,0 +1,93 @@
+import { describe, expect, test, afterEach, jest } from "@jest/globals";
+import { getRateLimiter } from "./ratelimiting";
+
+const settled = <T>(promise: Promise<T>) => {
+  const state = { done: false };
+  void promise.then(() => (state.done = true));
+  return state;
+};
+
+describe("rate limiter", () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test("is disabled without config", () => {
+    expect(getRateLimiter(undefined)).toBeUndefined();
+  });
+
+  test("waits for requests to refill", async () => {
+    jest.useFakeTimers();
+    const limiter = getRateLimiter({
+      limits: { openai: { requestsPerMinute: 2 } },
+    })!;
+
+    await limiter("openai", "gpt-4", 0);
+    await limiter("openai", "gpt-4", 0);
+
+    const third = settled(limiter("openai", "gpt-4", 0));
+    await jest.advanceTimersByTimeAsync(29_000);
+    expect(third.done).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(third.done).toBe(true);
+  });
+
+  test("keeps separate buckets per model", async () => {
+    jest.useFakeTimers();
+    const limiter = getRateLimiter({
+      limits: {
+        openai: { requestsPerMinute: 1 },
+        "openai:gpt-4": { requestsPerMinute: 2 },
+      },
+    })!;
+
+    await limiter("openai", "gpt-3.5-turbo", 0);
+    await limiter("openai", "gpt-4", 0);
+    await limiter("openai", "gpt-4", 0);
+
+    const waiting = settled(limiter("openai", "gpt-3.5-turbo", 0));
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(waiting.done).toBe(false);
+
+    // unconfigured providers aren't limited
+    await limiter("cohere", "command", 0);
+  });
+
+  test("corrects token estimates with the reported usage", async () => {
+    jest.useFakeTimers();
+    const limiter = getRateLimiter({
+      limits: { openai: { tokensPerMinute: 1000 } },
+    })!;
+
+    const release = await limiter("openai", "gpt-4", 1000);
+    await release(100);
+
+    // 900 tokens were returned to the bucket
+    const next = settled(limiter("openai", "gpt-4", 900));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(next.done).toBe(true);
+
+    const over = settled(limiter("openai", "gpt-4", 500));
+    await jest.advanceTimersByTimeAsync(29_000);
+    expect(over.done).toBe(false);
+    await jest.advanceTimersByTimeAsync(1_000);
+    expect(over.done).toBe(true);
+  });
+
+  test("limits concurrency", async () => {
+    const limiter = getRateLimiter({
+      limits: { anthropic: { maxConcurrency: 1 } },
+    })!;
+
+    const release = await limiter("anthropic", "claude-3-haiku", 0);
+    const second = settled(limiter("anthropic", "claude-3-haiku", 0));
+
+    await new Promise((r) => setTimeout(r, 10));
+    expect(second.done).toBe(false);
+
+    await release(undefined);
+    await new Promise((r) => setTimeout(r, 10));
+    expect(second.done).toBe(true);
+  });
+});
@@ -0,0 +1,210 @@
+import { Redis } from "ioredis";
+import { ElelemRateLimit, ElelemRateLimitConfig } from "./types";
+
+const MINUTE_MILLISECONDS = 60 * 1000;
+
+interface TokenBucket {
+  // resolves with how long to wait before trying again, or 0 once the cost is taken
+  take: (cost: number) => Promise<number>;
+  // returns unused tokens, or takes more when negative
+  adjust: (amount: number) => Promise<void>;
+}
+
+const memoryBucket = (capacity: number): TokenBucket => {
+  const refillPerMillisecond = capacity / MINUTE_MILLISECONDS;
+  let tokens = capacity;
+  let updatedAt = Date.now();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(
+      capacity,
+      tokens + (now - updatedAt) * refillPerMillisecond,
+    );
+    updatedAt = now;
+  };
+
+  return {
+    take: async (cost: number) => {
+      refill();
+      if (tokens >= cost) {
+        tokens -= cost;
+        return 0;
+      }
+      return Math.ceil((cost - tokens) / refillPerMillisecond);
+    },
+    adjust: async (amount: number) => {
+      refill();
+      tokens = Math.min(capacity, tokens + amount);
+    },
+  };
+};
+
+// uses the redis clock so workers with skewed clocks agree on the refill
+const TAKE_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local cost = tonumber(ARGV[2])
+local refill = capacity / ${MINUTE_MILLISECONDS}
+local time = redis.call("TIME")
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local state = redis.call("HMGET", KEYS[1], "tokens", "updatedAt")
+local tokens = tonumber(state[1]) or capacity
+local updatedAt = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + (now - updatedAt) * refill)
+if ARGV[3] == "adjust" then
+  tokens = math.min(capacity, tokens + cost)
+  cost = 0
+end
+local wait = 0
+if tokens >= cost then
+  tokens = tokens - cost
+else
+  wait = math.ceil((cost - tokens) / refill)
+end
+redis.call("HSET", KEYS[1], "tokens", tostring(tokens), "updatedAt", tostring(now))
+redis.call("PEXPIRE", KEYS[1], ${2 * MINUTE_MILLISECONDS})
+return wait
+`;
+
+const redisBucket = (
+  redis: Redis,
+  key: string,
+  capacity: number,
+): TokenBucket => ({
+  take: async (cost: number) =>
+    Number(await redis.eval(TAKE_SCRIPT, 1, key, capacity, cost, "take")),
+  adjust: async (amount: number) => {
+    await redis.eval(TAKE_SCRIPT, 1, key, capacity, amount, "adjust");
+  },
+});
+
+const semaphore = (permits: number) => {
+  let available = permits;
+  const waiting: (() => void)[] = [];
+
+  return {
+    acquire: async () => {
+      if (available > 0) {
+        available -= 1;
+        return;
+      }
+      // the releasing caller hands its permit straight to the next in line
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    },
+    release: () => {
+      const next = waiting.shift();
+      if (next !== undefined) {
+        next();
+      } else {
+        available += 1;
+      }
+    },
+  };
+};
+
+const sleep = (milliseconds: number) =>
+  new Promise((resolve) => setTimeout(resolve, milliseconds));
+
+const takeWhenAvailable = async (bucket: TokenBucket, cost: number) => {
+  for (
+    let wait = await bucket.take(cost);
+    wait > 0;
+    wait = await bucket.take(cost)
+  ) {
+    await sleep(wait);
+  }
+};
+
+interface ModelLimiter {
+  requests?: TokenBucket;
+  tokens?: TokenBucket;
+  tokensPerMinute?: number;
+  concurrency?: ReturnType<typeof semaphore>;
+}
+
+// resolves once the call may go ahead, with a function to call with the reported token usage once it's done
+export type RateLimiter = (
+  provider: string,
+  model: string | undefined,
+  estimatedTokens: number,
+) => Promise<(usedTokens: number | undefined) => Promise<void>>;
+
+export const getRateLimiter = (
+  config: ElelemRateLimitConfig | undefined,
+): RateLimiter | undefined => {
+  if (config === undefined) {
+    return undefined;
+  }
+
+  const limiters = new Map<string, ModelLimiter>();
+
+  const bucket = (key: string, capacity: number) =>
+    config.redis !== undefined
+      ? redisBucket(
+          config.redis,
+          [config.namespace, "elelem:rate-limit", key]
+            .filter((part) => part !== undefined)
+            .join(":"),
+          capacity,
+        )
+      : memoryBucket(capacity);
+
+  const limiterFor = (provider: string, model: string | undefined) => {
+    const key = model === undefined ? provider : `${provider}:${model}`;
+
+    let limiter = limiters.get(key);
+    if (limiter === undefined) {
+      const limits: ElelemRateLimit | undefined =
+        (model !== undefined ? config.limits[key] : undefined) ??
+        config.limits[provider];
+
+      limiter = {
+        requests:
+          limits?.requestsPerMinute !== undefined
+            ? bucket(`${key}:requests`, limits.requestsPerMinute)
+            : undefined,
+        tokens:
+          limits?.tokensPerMinute !== undefined
+            ? bucket(`${key}:tokens`, limits.tokensPerMinute)
+            : undefined,
+        tokensPerMinute: limits?.tokensPerMinute,
+        concurrency:
+          limits?.maxConcurrency !== undefined
+            ? semaphore(limits.maxConcurrency)
+            : undefined,
+      };
+      limiters.set(key, limiter);
+    }
+    return limiter;
+  };
+
+  return async (provider, model, estimatedTokens) => {
+    const { requests, tokens, tokensPerMinute, concurrency } = limiterFor(
+      provider,
+      model,
+    );
+
+    // a call bigger than the whole bucket would otherwise wait forever
+    const tokenCost = Math.min(estimatedTokens, tokensPerMinute ?? 0);
+
+    await concurrency?.acquire();
+    try {
+      if (requests !== undefined) {
+        await takeWhenAvailable(requests, 1);
+      }
+      if (tokens !== undefined) {
+        await takeWhenAvailable(tokens, tokenCost);
+      }
+    } catch (e) {
+      concurrency?.release();
+      throw e;
+    }
+
+    return async (usedTokens) => {
+      concurrency?.release();
+      if (tokens !== undefined && usedTokens !== undefined) {
+        await tokens.adjust(tokenCost - usedTokens);
+      }
+    };
+  };
+};
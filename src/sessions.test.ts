@@ -0,0 +1,843 @@
+import { z } from "zod";
+import { describe, expect, test } from "@jest/globals";
+import OpenAI from "openai";
+import { CompletionUsage } from "openai/resources";
+import { majorityVote, mergeWith } from "./aggregators";
+import { elelem } from "./elelem";
+import { JsonSchemaAndExampleFormatter, NullFormatter } from "./formatters";
+import {
+  ElelemBudgetExceededError,
+  ElelemCacheMissError,
+  ElelemContext,
+  ElelemError,
+  ElelemMessage,
+  ElelemProvider,
+} from "./types";
+
+const strResponseSchema = z.object({
+  str: z.string(),
+});
+
+const cityResponseSchema = z.object({
+  foundingYear: z.string(),
+  populationEstimate: z.number(),
+});
+
+interface StubModelOptions {
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+}
+
+interface StubRequest {
+  systemPromptWithFormat: string;
+  userPrompt: string | ElelemMessage[];
+  modelOptions: StubModelOptions;
+}
+
+// stands in for a model vendor; every call is billed the same usage
+const stubProvider = (
+  respond: (request: StubRequest) => string | Promise<string>,
+  {
+    usage = { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    estimateCost = () => 0.01,
+  }: {
+    usage?: CompletionUsage;
+    estimateCost?: (usage: CompletionUsage) => number;
+  } = {},
+): ElelemProvider<StubModelOptions, StubRequest, string> => ({
+  formatRequest: (systemPromptWithFormat, userPrompt, modelOptions) => ({
+    systemPromptWithFormat,
+    userPrompt,
+    modelOptions,
+  }),
+  call: async (request) => await respond(request),
+  extractResponse: (response) => response,
+  extractUsage: () => usage,
+  estimateCost,
+});
+
+// 100/50/150 tokens per call at $0.001 per token
+const pricedUsage = {
+  usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+  estimateCost: (usage: CompletionUsage) => usage.total_tokens / 1000,
+};
+
+const wrap = (request: StubRequest) =>
+  JSON.stringify({ str: request.userPrompt });
+
+describe("repair", () => {
+  test("sends validation errors back at temperature 0", async () => {
+    const requests: StubRequest[] = [];
+
+    const repairLlm = elelem.init({
+      providers: {
+        flaky: stubProvider((request) => {
+          requests.push(request);
+          return requests.length === 1
+            ? `{"foundingYear": 1790}`
+            : `{"foundingYear": "1790", "populationEstimate": 700000}`;
+        }),
+      },
+    });
+
+    const { result, usage } = await repairLlm.session(
+      "repair",
+      {},
+      async (c) => {
+        const { result } = await c.generate(
+          "flaky",
+          "city-description",
+          { temperature: 0 },
+          `For the given capitol city, return the founding year and an estimate of the population of the city.`,
+          "Washington, D.C.",
+          cityResponseSchema,
+          JsonSchemaAndExampleFormatter,
+          { repair: true },
+        );
+
+        return result;
+      },
+    );
+
+    expect(result.foundingYear).toBe("1790");
+    expect(requests).toHaveLength(2);
+    expect(requests[0].userPrompt).toBe("Washington, D.C.");
+
+    const repairPrompt = requests[1].userPrompt as ElelemMessage[];
+    expect(repairPrompt).toHaveLength(3);
+    expect(repairPrompt[0]).toEqual({
+      role: "user",
+      content: "Washington, D.C.",
+    });
+    expect(repairPrompt[1]).toEqual({
+      role: "assistant",
+      content: `{"foundingYear": 1790}`,
+    });
+    expect(repairPrompt[2].role).toBe("user");
+    expect(repairPrompt[2].content).toContain("populationEstimate");
+
+    expect(usage.total_tokens).toBe(30);
+  });
+});
+
+describe("output modes", () => {
+  test("parses tool arguments as they are", async () => {
+    const codeSchema = z.object({ code: z.string() });
+    const args = JSON.stringify({ code: "```json\n[1, 2]\n```" });
+    let calls = 0;
+
+    const llm = elelem.init({
+      providers: {
+        tool: {
+          ...stubProvider(() => {
+            calls += 1;
+            return args;
+          }),
+          outputModes: ["tool"],
+        },
+      },
+    });
+
+    const { result } = await llm.session("output-modes", {}, async (c) =>
+      c.generate(
+        "tool",
+        "code",
+        { temperature: 0 },
+        `Write the code.`,
+        "input",
+        codeSchema,
+        NullFormatter,
+        { outputMode: "tool" },
+      ),
+    );
+
+    expect(result.result).toEqual({ code: "```json\n[1, 2]\n```" });
+    expect(calls).toBe(1);
+  });
+
+  test("isn't thrown off by braces inside tool argument strings", async () => {
+    const llm = elelem.init({
+      providers: {
+        tool: {
+          ...stubProvider(() => JSON.stringify({ str: "} {" })),
+          outputModes: ["tool"],
+        },
+      },
+    });
+
+    const { result } = await llm.session("output-modes", {}, async (c) =>
+      c.generate(
+        "tool",
+        "braces",
+        {},
+        `Wrap the input string in the json format.`,
+        "input",
+        strResponseSchema,
+        NullFormatter,
+        { outputMode: "tool" },
+      ),
+    );
+
+    expect(result.result).toEqual({ str: "} {" });
+  });
+});
+
+describe("budgets", () => {
+  const budgetLlm = (response: string) => {
+    const counter = { calls: 0 };
+
+    const llm = elelem.init({
+      providers: {
+        priced: stubProvider(() => {
+          counter.calls += 1;
+          return response;
+        }, pricedUsage),
+      },
+    });
+
+    return { llm, counter };
+  };
+
+  test("refuses calls that could exceed the session budget", async () => {
+    const { llm, counter } = budgetLlm(`{"str": "hello"}`);
+
+    const error = await llm
+      .session(
+        "budget",
+        {},
+        async (c) => {
+          for (let i = 0; i < 3; i++) {
+            await c.generate(
+              "priced",
+              `budget-${i}`,
+              { max_tokens: 50 },
+              `Wrap the input string in the json format.`,
+              "hello",
+              strResponseSchema,
+              NullFormatter,
+            );
+          }
+        },
+        { maxCostUsd: 0.2 },
+      )
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ElelemBudgetExceededError);
+    expect(error.scope).toBe("session");
+    expect(error.limit).toBe("maxCostUsd");
+    expect(error.usage.total_tokens).toBe(150);
+    expect(counter.calls).toBe(1);
+  });
+
+  test("refuses calls whose max_tokens exceeds the per-call budget", async () => {
+    const { llm, counter } = budgetLlm(`{"str": "hello"}`);
+
+    const error = await llm
+      .session("budget", {}, async (c) => {
+        await c.generate(
+          "priced",
+          "budget",
+          { max_tokens: 4000 },
+          `Wrap the input string in the json format.`,
+          "hello",
+          strResponseSchema,
+          NullFormatter,
+          { maxTotalTokens: 1000 },
+        );
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ElelemBudgetExceededError);
+    expect(error.scope).toBe("call");
+    expect(error.limit).toBe("maxTotalTokens");
+    expect(counter.calls).toBe(0);
+  });
+
+  test("stops retrying once the per-call budget is spent", async () => {
+    const { llm, counter } = budgetLlm(`not json`);
+
+    const error = await llm
+      .session("budget", {}, async (c) => {
+        await c.generate(
+          "priced",
+          "budget",
+          { max_tokens: 50 },
+          `Wrap the input string in the json format.`,
+          "hello",
+          strResponseSchema,
+          NullFormatter,
+          { maxCostUsd: 0.35 },
+        );
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ElelemBudgetExceededError);
+    expect(error.usage.total_tokens).toBe(300);
+    expect(counter.calls).toBe(2);
+  });
+});
+
+describe("usage breakdown", () => {
+  const breakdownLlm = () => {
+    let calls = 0;
+
+    return elelem.init({
+      cache: { memory: true },
+      providers: {
+        priced: stubProvider((request) => {
+          calls += 1;
+          // the first "flaky" request returns something unparseable
+          return request.userPrompt === "flaky" && calls === 1
+            ? `not json`
+            : wrap(request);
+        }, pricedUsage),
+      },
+    });
+  };
+
+  const generateStr = (c: ElelemContext, chatId: string, input: string) =>
+    c.generate(
+      "priced",
+      chatId,
+      { model: "in-house" },
+      `Wrap the input string in the json format.`,
+      input,
+      strResponseSchema,
+      NullFormatter,
+    );
+
+  test("breaks usage down by call, attempt, and cache hit", async () => {
+    const llm = breakdownLlm();
+
+    const { usage, breakdown } = await llm.session(
+      "breakdown",
+      {},
+      async (c) => {
+        await generateStr(c, "flaky", "flaky");
+        await generateStr(c, "first", "hello");
+        await generateStr(c, "second", "hello");
+        await c.action("add", { a: 1, b: 2 }, String, Number, async () => 3);
+      },
+    );
+
+    expect(usage.total_tokens).toBe(450);
+    expect(
+      breakdown.calls.map(({ id, kind, attempt, cacheHit, succeeded }) => ({
+        id,
+        kind,
+        attempt,
+        cacheHit,
+        succeeded,
+      })),
+    ).toEqual([
+      {
+        id: "flaky",
+        kind: "generation",
+        attempt: 0,
+        cacheHit: false,
+        succeeded: false,
+      },
+      {
+        id: "flaky",
+        kind: "generation",
+        attempt: 1,
+        cacheHit: false,
+        succeeded: true,
+      },
+      {
+        id: "first",
+        kind: "generation",
+        attempt: 0,
+        cacheHit: false,
+        succeeded: true,
+      },
+      {
+        id: "second",
+        kind: "generation",
+        attempt: 0,
+        cacheHit: true,
+        succeeded: true,
+      },
+      {
+        id: "add",
+        kind: "action",
+        attempt: 0,
+        cacheHit: false,
+        succeeded: true,
+      },
+    ]);
+
+    expect(breakdown.calls[0].provider).toBe("priced");
+    expect(breakdown.calls[0].model).toBe("in-house");
+    expect(breakdown.calls[0].usage.cost_usd).toBeCloseTo(0.15);
+    expect(breakdown.calls[3].usage.total_tokens).toBe(0);
+    expect(breakdown.wastedUsd).toBeCloseTo(0.15);
+    expect(breakdown.savedUsd).toBeGreaterThan(0);
+    expect(breakdown.savedUsd).toBeCloseTo(breakdown.calls[3].savedUsd);
+  });
+
+  test("is attached to session errors", async () => {
+    const llm = breakdownLlm();
+
+    const error = await llm
+      .session("breakdown", {}, async (c) => {
+        await generateStr(c, "first", "hello");
+        throw new Error("something went wrong");
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ElelemError);
+    expect(error.breakdown.calls).toHaveLength(1);
+    expect(error.breakdown.calls[0].usage.total_tokens).toBe(150);
+  });
+});
+
+describe("fallback", () => {
+  const fallbackLlm = elelem.init({
+    backoffOptions: { numOfAttempts: 2, startingDelay: 1 },
+    providers: {
+      down: stubProvider(() => {
+        throw new Error("503 Service Unavailable");
+      }),
+      up: stubProvider(({ modelOptions }) =>
+        JSON.stringify({ str: modelOptions.model }),
+      ),
+    },
+  });
+
+  test("moves on to the next entry once an entry fails", async () => {
+    const { result } = await fallbackLlm.session("fallback", {}, async (c) =>
+      c.fallback(
+        "wrap",
+        [
+          { provider: "down", modelOptions: { model: "big" } },
+          { provider: "up", modelOptions: { model: "small" } },
+          { provider: "up" },
+        ],
+        `Wrap the input string in the json format.`,
+        "input",
+        strResponseSchema,
+        NullFormatter,
+      ),
+    );
+
+    expect(result.result).toEqual({ str: "small" });
+    expect(result.provider).toBe("up");
+    expect(result.model).toBe("small");
+  });
+
+  test("throws once every entry has failed", async () => {
+    const error = await fallbackLlm
+      .session("fallback", {}, async (c) =>
+        c.fallback(
+          "wrap",
+          [{ provider: "down" }, { provider: "missing" }],
+          `Wrap the input string in the json format.`,
+          "input",
+          strResponseSchema,
+          NullFormatter,
+        ),
+      )
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ElelemError);
+    expect(error.message).toContain("Every fallback entry failed");
+    expect(error.breakdown.calls).toHaveLength(2);
+  });
+
+  test("counts the per-call budget across the whole chain", async () => {
+    const counter = { garbled: 0, wrapped: 0 };
+
+    const llm = elelem.init({
+      backoffOptions: { numOfAttempts: 2, startingDelay: 1 },
+      providers: {
+        garbled: stubProvider(() => {
+          counter.garbled += 1;
+          return `not json`;
+        }, pricedUsage),
+        wrapped: stubProvider((request) => {
+          counter.wrapped += 1;
+          return wrap(request);
+        }, pricedUsage),
+      },
+    });
+
+    const error = await llm
+      .session("fallback", {}, async (c) =>
+        c.fallback(
+          "wrap",
+          [
+            { provider: "garbled", modelOptions: { max_tokens: 50 } },
+            { provider: "wrapped", modelOptions: { max_tokens: 50 } },
+          ],
+          `Wrap the input string in the json format.`,
+          "input",
+          strResponseSchema,
+          NullFormatter,
+          { maxCostUsd: 0.35 },
+        ),
+      )
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ElelemBudgetExceededError);
+    expect(error.scope).toBe("call");
+    expect(error.usage.total_tokens).toBe(300);
+    expect(counter).toEqual({ garbled: 2, wrapped: 0 });
+  });
+});
+
+describe("ensemble", () => {
+  test("combines the results of every member that succeeds", async () => {
+    const calls: string[] = [];
+    const answers: Record<string, string> = { big: "a", small: "b" };
+
+    const llm = elelem.init({
+      backoffOptions: { numOfAttempts: 1 },
+      providers: {
+        stub: stubProvider(({ modelOptions }) => {
+          const model = modelOptions.model || "default";
+          calls.push(model);
+          if (answers[model] === undefined) {
+            throw new Error("503 Service Unavailable");
+          }
+          return JSON.stringify({ str: answers[model] });
+        }),
+      },
+    });
+
+    const { result } = await llm.session("ensemble", {}, async (c) =>
+      c.ensemble(
+        "wrap",
+        [
+          { provider: "stub", modelOptions: { model: "big" }, samples: 2 },
+          { provider: "stub", modelOptions: { model: "small" } },
+          { provider: "stub", modelOptions: { model: "down" } },
+        ],
+        `Wrap the input string in the json format.`,
+        "input",
+        strResponseSchema,
+        NullFormatter,
+        majorityVote(),
+      ),
+    );
+
+    expect(result.result).toEqual({ str: "a" });
+    expect(result.results).toHaveLength(3);
+    expect(result.agreement).toBeCloseTo(2 / 3);
+    expect(result.usage.total_tokens).toBe(45);
+    expect(calls.sort()).toEqual(["big", "big", "down", "small"]);
+  });
+});
+
+describe("ensemble providers", () => {
+  test("generates with every provider even when their requests match", async () => {
+    const llm = elelem.init({
+      // a key that leaves the provider out, like openai's legacy key
+      cache: { key: { generation: ({ userPrompt }) => ({ userPrompt }) } },
+      providers: {
+        a: stubProvider(() => JSON.stringify({ str: "a" })),
+        b: stubProvider(() => JSON.stringify({ str: "b" })),
+      },
+    });
+
+    const { result } = await llm.session("ensemble", {}, async (c) =>
+      c.ensemble(
+        "wrap",
+        [
+          { provider: "a", modelOptions: { model: "m" } },
+          { provider: "b", modelOptions: { model: "m" } },
+        ],
+        `Wrap the input string in the json format.`,
+        "input",
+        strResponseSchema,
+        NullFormatter,
+        majorityVote(),
+      ),
+    );
+
+    expect(result.results).toEqual([{ str: "a" }, { str: "b" }]);
+    expect(result.agreement).toBeCloseTo(1 / 2);
+  });
+});
+
+describe("ensemble cache policies", () => {
+  test("doesn't generate samples under the cache-only policy", async () => {
+    let calls = 0;
+    const respond = (request: StubRequest) => {
+      calls += 1;
+      return wrap(request);
+    };
+
+    const llm = elelem.init({
+      cache: { memory: true },
+      providers: {
+        repeated: stubProvider(respond),
+        sampled: {
+          ...stubProvider(respond),
+          sampling: {
+            withSamples: (modelOptions) => modelOptions,
+            extractResponses: (response: string) => [response],
+          },
+        },
+      },
+    });
+
+    const error = await llm
+      .session(
+        "ensemble",
+        {},
+        async (c) =>
+          c.ensemble(
+            "wrap",
+            [
+              { provider: "repeated", samples: 2 },
+              { provider: "sampled", samples: 2 },
+            ],
+            `Wrap the input string in the json format.`,
+            "input",
+            strResponseSchema,
+            NullFormatter,
+            majorityVote(),
+          ),
+        { cachePolicy: "cache-only" },
+      )
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ElelemCacheMissError);
+    expect(calls).toBe(0);
+  });
+});
+
+describe("ensemble budgets", () => {
+  const pricedLlm = () =>
+    elelem.init({
+      backoffOptions: { numOfAttempts: 1 },
+      providers: { priced: stubProvider(wrap, pricedUsage) },
+    });
+
+  const members = [
+    { provider: "priced", modelOptions: { model: "a", max_tokens: 100 } },
+    { provider: "priced", modelOptions: { model: "b", max_tokens: 100 } },
+  ];
+
+  test("shares the per-call budget between members", async () => {
+    const { result } = await pricedLlm().session("ensemble", {}, async (c) =>
+      c.ensemble(
+        "wrap",
+        members,
+        `Wrap the input string in the json format.`,
+        "input",
+        strResponseSchema,
+        NullFormatter,
+        majorityVote(),
+        { maxCostUsd: 0.2 },
+      ),
+    );
+
+    expect(result.results).toHaveLength(1);
+    expect(result.usage.total_tokens).toBe(150);
+  });
+
+  test("surfaces the budget error when no member could run", async () => {
+    const error = await pricedLlm()
+      .session("ensemble", {}, async (c) =>
+        c.ensemble(
+          "wrap",
+          members,
+          `Wrap the input string in the json format.`,
+          "input",
+          strResponseSchema,
+          NullFormatter,
+          majorityVote(),
+          { maxTotalTokens: 10 },
+        ),
+      )
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ElelemBudgetExceededError);
+    expect(error.scope).toBe("call");
+    expect(error.limit).toBe("maxTotalTokens");
+  });
+});
+
+describe("ensemble results", () => {
+  test("fails when the aggregated result doesn't match the schema", async () => {
+    const llm = elelem.init({
+      providers: {
+        stub: stubProvider(({ modelOptions }) =>
+          JSON.stringify({ str: modelOptions.model }),
+        ),
+      },
+    });
+
+    const error = await llm
+      .session("ensemble", {}, async (c) =>
+        c.ensemble(
+          "wrap",
+          [
+            { provider: "stub", modelOptions: { model: "a" } },
+            { provider: "stub", modelOptions: { model: "b" } },
+          ],
+          `Wrap the input string in the json format.`,
+          "input",
+          strResponseSchema,
+          NullFormatter,
+          mergeWith(() => ({ str: undefined as unknown as string })),
+        ),
+      )
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ElelemError);
+    expect(error.message).toContain(
+      "The aggregated result doesn't match the schema",
+    );
+    expect(error.usage.total_tokens).toBe(30);
+  });
+});
+
+describe("map", () => {
+  const mapLlm = (inFlight: { current: number; max: number }) =>
+    elelem.init({
+      providers: {
+        slow: stubProvider(async (request) => {
+          inFlight.current += 1;
+          inFlight.max = Math.max(inFlight.max, inFlight.current);
+          await new Promise((r) => setTimeout(r, 10));
+          inFlight.current -= 1;
+          return request.userPrompt === "bad" ? `not json` : wrap(request);
+        }),
+      },
+    });
+
+  test("returns per-item results with bounded concurrency", async () => {
+    const inFlight = { current: 0, max: 0 };
+    const llm = mapLlm(inFlight);
+
+    const { result, usage } = await llm.session("map", {}, async (c) =>
+      c.map(
+        "wrap-all",
+        ["a", "b", "bad", "c", "d"],
+        2,
+        async (input, _, ic) => {
+          const { result } = await ic.generate(
+            "slow",
+            "wrap",
+            { temperature: 0 },
+            `Wrap the input string in the json format.`,
+            input,
+            strResponseSchema,
+            NullFormatter,
+          );
+          return result.str;
+        },
+      ),
+    );
+
+    expect(inFlight.max).toBe(2);
+    expect(result.map((item) => item.ok)).toEqual([
+      true,
+      true,
+      false,
+      true,
+      true,
+    ]);
+    expect(result.map((item) => (item.ok ? item.result : null))).toEqual([
+      "a",
+      "b",
+      null,
+      "c",
+      "d",
+    ]);
+
+    const failed = result[2];
+    expect(failed.ok).toBe(false);
+    if (!failed.ok) {
+      expect(failed.error).toBeInstanceOf(ElelemError);
+    }
+    // every failed generation attempt is charged to the item
+    expect(failed.usage.total_tokens).toBe(45);
+    expect(result[0].usage.total_tokens).toBe(15);
+    expect(usage.total_tokens).toBe(105);
+  });
+
+  test("retries items when asked to", async () => {
+    let attempts = 0;
+    const llm = mapLlm({ current: 0, max: 0 });
+
+    const { result } = await llm.session("map", {}, async (c) =>
+      c.map(
+        "flaky",
+        [1],
+        1,
+        async (n) => {
+          attempts += 1;
+          if (attempts === 1) {
+            throw new Error("try again");
+          }
+          return n * 2;
+        },
+        { numOfAttempts: 2, startingDelay: 1 },
+      ),
+    );
+
+    expect(result).toEqual([
+      { index: 0, ok: true, result: 2, usage: expect.anything() },
+    ]);
+    expect(attempts).toBe(2);
+  });
+
+  test("tallies streamed generations", async () => {
+    // streams the wrapped input in two chunks, reporting usage with the last one
+    const openai = {
+      chat: {
+        completions: {
+          create: async function* () {
+            yield { choices: [{ delta: { content: `{"str": ` } }] };
+            yield {
+              choices: [{ delta: { content: `"streamed"}` } }],
+              usage: {
+                prompt_tokens: 10,
+                completion_tokens: 5,
+                total_tokens: 15,
+              },
+            };
+          },
+        },
+      },
+    } as unknown as OpenAI;
+
+    const llm = elelem.init({ openai });
+
+    const { result } = await llm.session(
+      "map",
+      { openai: { model: "gpt-4o" } },
+      async (c) =>
+        c.map(
+          "stream-all",
+          ["iterated", "finalized"],
+          2,
+          async (input, _, ic) => {
+            const stream = ic.openaiStream(
+              input,
+              {},
+              `Wrap the input string in the json format.`,
+              input,
+              strResponseSchema,
+              NullFormatter,
+            );
+
+            if (input === "iterated") {
+              for await (const partial of stream) {
+                expect(partial).toBeDefined();
+              }
+            }
+
+            return (await stream.final()).result.str;
+          },
+        ),
+    );
+
+    expect(result.map((item) => item.usage.total_tokens)).toEqual([15, 15]);
+  });
+});
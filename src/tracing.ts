@@ -1,5 +1,9 @@
 import { Span } from "@opentelemetry/api";
-import { ElelemUsage, ElelemConfigAttributes } from "./types";
+import {
+  ElelemUsage,
+  ElelemConfigAttributes,
+  ElelemPromptTemplateInfo,
+} from "./types";
 
 export const setElelemConfigAttributes = (
   span: Span,
@@ -17,3 +21,15 @@ export const setUsageAttributes = (span: Span, usage: ElelemUsage) => {
   span.setAttribute("openai.usage.total_tokens", usage.total_tokens);
   span.setAttribute("openai.usage.cost_usd", usage.cost_usd);
 };
+
+export const setTemplateAttributes = (
+  span: Span,
+  template: ElelemPromptTemplateInfo,
+) => {
+  span.setAttribute("elelem.prompt.name", template.name);
+  span.setAttribute("elelem.prompt.version", template.version);
+  span.setAttribute(
+    "elelem.prompt.variables",
+    JSON.stringify(template.variables),
+  );
+};
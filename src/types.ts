@@ -1,22 +1,124 @@
 import { Redis } from "ioredis";
 import { BackoffOptions } from "exponential-backoff";
 import OpenAI from "openai";
-import { ZodType } from "zod";
+import Anthropic from "@anthropic-ai/sdk";
+import { MessageCreateParamsNonStreaming } from "@anthropic-ai/sdk/resources/messages";
+import { ZodType, ZodTypeAny } from "zod";
 import { ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
 import { CompletionUsage } from "openai/resources";
 import { Span } from "@opentelemetry/api";
-import {GenerateRequest, GenerationFinalResponse} from "cohere-ai/api";
-import {CohereClient} from "cohere-ai";
+import { GenerateRequest, GenerationFinalResponse } from "cohere-ai/api";
+import { CohereClient } from "cohere-ai";
+
+// "refresh" regenerates and overwrites, "read-only" never writes, and "cache-only" fails instead of generating on a miss
+export type ElelemCachePolicy =
+  | "default"
+  | "bypass"
+  | "refresh"
+  | "read-only"
+  | "cache-only";
+
+export interface ElelemCacheEntryOptions {
+  // the chatId or actionId that produced the entry, so its entries can be invalidated together
+  id?: string;
+  // overrides the configured default ttl
+  ttlSeconds?: number;
+  // the configured namespace, passed along for custom caches
+  namespace?: string;
+}
+
+export interface ElelemCacheInvalidation {
+  id?: string;
+  // defaults to the configured namespace when invalidating by id
+  namespace?: string;
+}
 
 export interface ElelemCache {
   // keys will be hashed using object-hash
-  read: (key: object) => Promise<string | null>;
-  write: (key: object, value: string) => Promise<void>;
+  read: (
+    key: object,
+    options?: ElelemCacheEntryOptions,
+  ) => Promise<string | null>;
+  write: (
+    key: object,
+    value: string,
+    options?: ElelemCacheEntryOptions,
+  ) => Promise<void>;
+  // resolves with the number of entries removed
+  invalidate?: (selector: ElelemCacheInvalidation) => Promise<number>;
+}
+
+export interface ElelemMemoryCacheConfig {
+  // defaults to 1000
+  maxEntries?: number;
+  // counts the utf-8 size of keys and values
+  maxBytes?: number;
+}
+
+export interface ElelemFilesystemCacheConfig {
+  directory: string;
+}
+
+export interface ElelemCacheKeyInput {
+  // the name the provider is registered under
+  provider: string;
+  chatId: string;
+  systemPrompt: string;
+  systemPromptWithFormat: string;
+  formatter: ElelemFormatter;
+  userPrompt: string | ElelemMessage[];
+  modelOptions: object;
+  schema: ZodTypeAny;
+  outputMode: ElelemOutputMode;
+  promptVersion?: string;
+  template?: ElelemPromptTemplateInfo;
+}
+
+export interface ElelemActionCacheKeyInput {
+  actionId: string;
+  actionContext: object;
+  promptVersion?: string;
+}
+
+// with none of these set, generations are keyed on the formatted system prompt, the user prompt, and every model option
+export interface ElelemCacheKeyConfig {
+  // model options to key on, e.g. ["model", "temperature"]
+  includeOptions?: string[];
+  // model options that don't change the output, e.g. ["user", "max_tokens"]
+  excludeOptions?: string[];
+  // trims prompts and collapses runs of whitespace
+  normalizeWhitespace?: boolean;
+  // keys on a hash of the schema, which matters when the formatter doesn't include it in the prompt
+  schemaHash?: boolean;
+  // bump to start fresh after prompt changes; can be overridden per call
+  promptVersion?: string;
+  // keys on the raw system prompt and the formatter's name, so formatter wording changes keep their entries
+  formatterName?: boolean;
+  // replace the built-in keys entirely
+  generation?: (input: ElelemCacheKeyInput) => object;
+  action?: (input: ElelemActionCacheKeyInput) => object;
+}
+
+export interface ElelemCacheLockConfig {
+  // locks held longer than this are treated as abandoned, defaults to 60
+  ttlSeconds?: number;
+  // how often waiting callers retry the lock, defaults to 100
+  pollMilliseconds?: number;
 }
 
 export interface ElelemCacheConfig {
   redis?: Redis;
+  filesystem?: ElelemFilesystemCacheConfig;
   custom?: ElelemCache;
+  // an in-process LRU, used on its own or in front of the redis, filesystem, or custom cache
+  memory?: ElelemMemoryCacheConfig | boolean;
+  // entries never expire unless a default or per-call ttl is set
+  ttlSeconds?: number;
+  // prefixes every key, e.g. "my-app:v2", so apps sharing a cache don't collide and bumping the version starts fresh
+  namespace?: string;
+  // coordinates identical generations across processes through redis, in addition to the in-process single-flight
+  lock?: ElelemCacheLockConfig | boolean;
+  key?: ElelemCacheKeyConfig;
 }
 
 export interface CohereGenerateBaseConfig {
@@ -26,9 +128,124 @@ export interface CohereGenerateBaseConfig {
 }
 
 export interface Cohere {
-  generate: (
-    config: GenerateRequest,
-  ) => Promise<GenerationFinalResponse>;
+  generate: (config: GenerateRequest) => Promise<GenerationFinalResponse>;
+}
+
+// "text" asks for JSON through the formatter in the system prompt
+// "tool" passes the schema as a forced tool call and "json_schema" uses strict structured outputs,
+// so the formatter isn't used for either
+export type ElelemOutputMode = "text" | "tool" | "json_schema";
+
+export interface ElelemOutput {
+  mode: ElelemOutputMode;
+  schema: ZodTypeAny;
+}
+
+// how JSON is pulled out of the response text, see extractJSON; other output modes always use "raw"
+export type ElelemExtractionStrategy = "auto" | "fenced" | "last" | "raw";
+
+// calls are refused up front when their worst-case usage, based on max_tokens, could exceed a limit
+export interface ElelemBudget {
+  maxCostUsd?: number;
+  maxTotalTokens?: number;
+}
+
+export interface ElelemGenerateOptions extends ElelemBudget {
+  outputMode?: ElelemOutputMode;
+  extraction?: ElelemExtractionStrategy;
+  // repairs JSON5-style output (comments, trailing commas, single quotes, unquoted keys) before parsing
+  lenient?: boolean;
+  cacheTtlSeconds?: number;
+  // overrides the session's cache policy
+  cachePolicy?: ElelemCachePolicy;
+  // overrides the configured prompt version in the cache key
+  promptVersion?: string;
+  // retries invalid responses by sending them back to the model along with the validation errors,
+  // which also allows retries at temperature 0
+  repair?: boolean;
+}
+
+export interface ElelemActionOptions {
+  cacheTtlSeconds?: number;
+  // overrides the session's cache policy
+  cachePolicy?: ElelemCachePolicy;
+}
+
+export interface ElelemSessionOptions extends ElelemBudget {
+  // defaults to "default", which reads and writes
+  cachePolicy?: ElelemCachePolicy;
+}
+
+// Adapts a model vendor to elelem. The request and response types are whatever the vendor's client uses;
+// elelem handles caching, retries, usage accounting, and tracing around the call.
+export interface ElelemProvider<ModelOpt extends object, Request, Response> {
+  // merged underneath the session and per-call model options
+  defaultModelOptions?: Partial<ModelOpt>;
+  // output modes besides "text" that the provider can handle
+  outputModes?: ElelemOutputMode[];
+  formatRequest(
+    systemPromptWithFormat: string,
+    userPrompt: string | ElelemMessage[],
+    modelOptions: ModelOpt,
+    output: ElelemOutput,
+  ): Request;
+  call(request: Request): Promise<Response>;
+  // should throw if the response doesn't contain any generated text
+  extractResponse(response: Response, output: ElelemOutput): string;
+  extractUsage(response: Response): CompletionUsage | undefined;
+  // when omitted, usage is priced from the pricing registry by provider name and model
+  estimateCost?(usage: CompletionUsage, modelOptions: ModelOpt): number;
+  // requests go through a batch api and are priced with the batch discount
+  batch?: boolean;
+  // asks for several independent samples in one request, e.g. with openai's n
+  sampling?: {
+    withSamples(modelOptions: ModelOpt, samples: number): ModelOpt;
+    // one response per usable sample
+    extractResponses(response: Response, output: ElelemOutput): string[];
+  };
+}
+
+// members are methods, whose parameters are bivariant, so any provider can be used as one
+export type AnyElelemProvider = ElelemProvider<object, unknown, unknown>;
+
+export interface ElelemRateLimit {
+  requestsPerMinute?: number;
+  // counted up front from the approximate prompt size plus max_tokens, then corrected with the reported usage
+  tokensPerMinute?: number;
+  // in-flight requests, always tracked per process
+  maxConcurrency?: number;
+}
+
+export interface ElelemRateLimitConfig {
+  // keyed by provider name, e.g. "openai", or by provider and model, e.g. "openai:gpt-4", which takes precedence
+  // every model gets its own buckets
+  limits: Record<string, ElelemRateLimit>;
+  // shares the request and token buckets between processes, e.g. to respect one org quota from several workers
+  redis?: Redis;
+  // prefixes the redis keys
+  namespace?: string;
+}
+
+export interface ElelemModelPricing {
+  // USD per million tokens
+  inputPerMillion: number;
+  outputPerMillion: number;
+  // for prompt tokens the provider reports as served from its prompt cache, defaults to the input price
+  cachedInputPerMillion?: number;
+  // multiplier for providers that go through a batch api, e.g. 0.5
+  batchDiscount?: number;
+}
+
+export interface ElelemPricingEntry extends ElelemModelPricing {
+  provider: string;
+  // strings match model names by prefix
+  model: string | RegExp;
+}
+
+export interface ElelemPricingConfig {
+  // checked before the built-in prices, and the first match wins
+  models?: ElelemPricingEntry[];
+  replaceDefaults?: boolean;
 }
 
 export interface ElelemConfig {
@@ -37,6 +254,35 @@ export interface ElelemConfig {
   cache?: ElelemCacheConfig;
   openai?: OpenAI;
   cohere?: CohereClient;
+  anthropic?: Anthropic;
+  // keyed by provider name, which is also used to prefix span names and attributes
+  // the clients above are registered as the "openai", "cohere", and "anthropic" providers
+  providers?: Record<string, AnyElelemProvider>;
+  rateLimits?: ElelemRateLimitConfig;
+  pricing?: ElelemPricingConfig;
+}
+
+// one attempt of a generation, or of an action
+export interface ElelemCallRecord {
+  // the chatId or actionId
+  id: string;
+  kind: "generation" | "action";
+  provider?: string;
+  model?: string;
+  // counts from 0 across retries of the same call
+  attempt: number;
+  cacheHit: boolean;
+  succeeded: boolean;
+  usage: ElelemUsage;
+  // approximately what generating a cached response would have cost
+  savedUsd: number;
+}
+
+export interface ElelemUsageBreakdown {
+  calls: ElelemCallRecord[];
+  savedUsd: number;
+  // spent on attempts that failed
+  wastedUsd: number;
 }
 
 export interface Elelem {
@@ -45,44 +291,202 @@ export interface Elelem {
 
 export type ElelemFormatter = <T>(schema: ZodType<T>) => string;
 
+// a curated input and the output the model should produce for it
+export interface ElelemExample<T> {
+  input: string;
+  output: T;
+}
+
+export interface ElelemFewShotOptions {
+  // describes the schema before the examples, defaults to TypeScriptFormatter
+  formatter?: ElelemFormatter;
+  // sends the examples as alternating user and assistant turns instead of listing them in the system prompt
+  asMessages?: boolean;
+}
+
+export type ElelemFewShotFormatter = ElelemFormatter & {
+  // prepends the examples to the user prompt when sending them as messages, otherwise returns it unchanged
+  withExamples: (
+    userPrompt: string | ElelemMessage[],
+  ) => string | ElelemMessage[];
+};
+
+export interface ElelemPromptTemplateConfig<V> {
+  name: string;
+  version: string;
+  variables: ZodType<V>;
+  // {{variable}} placeholders are replaced with the variable's value, or a function can build the prompt
+  system: string | ((variables: V) => string);
+  user: string | ((variables: V) => string | ElelemMessage[]);
+}
+
+export interface ElelemPromptTemplate<V> {
+  name: string;
+  version: string;
+  variables: ZodType<V>;
+  // throws if the variables don't match the schema
+  render(variables: V): {
+    systemPrompt: string;
+    userPrompt: string | ElelemMessage[];
+  };
+}
+
+// render is a method, so templates with any variables can be used as one
+export type AnyElelemPromptTemplate = ElelemPromptTemplate<unknown>;
+
+// recorded on spans and keyed on by the cache for generations rendered from a template
+export interface ElelemPromptTemplateInfo {
+  name: string;
+  version: string;
+  variables: unknown;
+}
+
+// takes the system and user prompts, or a template and its variables
+export interface ElelemGenerateCall<ModelOpt> {
+  <T>(
+    chatId: string,
+    modelOptions: ModelOpt,
+    systemPrompt: string,
+    userPrompt: string | ElelemMessage[],
+    schema: ZodType<T>,
+    formatter: ElelemFormatter,
+    options?: ElelemGenerateOptions,
+  ): Promise<{ result: T; usage: ElelemUsage }>;
+  <V, T>(
+    chatId: string,
+    modelOptions: ModelOpt,
+    template: ElelemPromptTemplate<V>,
+    variables: V,
+    schema: ZodType<T>,
+    formatter: ElelemFormatter,
+    options?: ElelemGenerateOptions,
+  ): Promise<{ result: T; usage: ElelemUsage }>;
+}
+
+// a single turn of a conversation, used instead of a plain user prompt for multi-turn chats and few-shot examples
+export interface ElelemMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
 export interface ElelemModelOptions {
   openai?: Omit<ChatCompletionCreateParamsNonStreaming, "messages">;
   cohere?: Partial<Omit<GenerateRequest, "prompt">>;
+  anthropic?: Omit<MessageCreateParamsNonStreaming, "messages" | "system">;
+  // defaults for custom providers, keyed by provider name
+  [provider: string]: object | undefined;
 }
 
 export interface PartialElelemModelOptions {
   openai?: Partial<Omit<ChatCompletionCreateParamsNonStreaming, "messages">>;
   cohere?: Partial<Omit<GenerateRequest, "prompt">>;
+  anthropic?: Partial<
+    Omit<MessageCreateParamsNonStreaming, "messages" | "system">
+  >;
 }
 
 export interface InitializedElelem {
+  // removes cached generations for a chatId, cached results for an actionId, or everything in a namespace
+  invalidateCache: (selector: {
+    chatId?: string;
+    actionId?: string;
+    namespace?: string;
+  }) => Promise<number>;
   session: <T>(
     sessionId: string,
     defaultModelOptions: ElelemModelOptions,
     contextFunction: (context: ElelemContext) => Promise<T>,
-  ) => Promise<{ result: T; usage: ElelemUsage }>;
+    options?: ElelemSessionOptions,
+  ) => Promise<{
+    result: T;
+    usage: ElelemUsage;
+    breakdown: ElelemUsageBreakdown;
+  }>;
 }
 
 export interface ElelemContext {
-  openai: <T>(
+  openai: ElelemGenerateCall<
+    Partial<Omit<ChatCompletionCreateParamsNonStreaming, "messages">>
+  >;
+
+  // streams partially parsed results as they arrive; streamed generations are not retried
+  // since partial results have already been handed to the caller
+  openaiStream: <T>(
     chatId: string,
     modelOptions: Partial<
       Omit<ChatCompletionCreateParamsNonStreaming, "messages">
     >,
     systemPrompt: string,
-    userPrompt: string,
+    userPrompt: string | ElelemMessage[],
+    schema: ZodType<T>,
+    formatter: ElelemFormatter,
+    options?: ElelemActionOptions & ElelemBudget,
+  ) => ElelemStream<T>;
+
+  cohere: ElelemGenerateCall<Partial<Omit<GenerateRequest, "prompt">>>;
+
+  anthropic: ElelemGenerateCall<
+    Partial<Omit<MessageCreateParamsNonStreaming, "messages" | "system">>
+  >;
+
+  // routes through any registered provider, including the built-in "openai", "cohere", and "anthropic" providers
+  generate: {
+    <T>(
+      provider: string,
+      chatId: string,
+      modelOptions: object,
+      systemPrompt: string,
+      userPrompt: string | ElelemMessage[],
+      schema: ZodType<T>,
+      formatter: ElelemFormatter,
+      options?: ElelemGenerateOptions,
+    ): Promise<{ result: T; usage: ElelemUsage }>;
+    <V, T>(
+      provider: string,
+      chatId: string,
+      modelOptions: object,
+      template: ElelemPromptTemplate<V>,
+      variables: V,
+      schema: ZodType<T>,
+      formatter: ElelemFormatter,
+      options?: ElelemGenerateOptions,
+    ): Promise<{ result: T; usage: ElelemUsage }>;
+  };
+
+  // tries each entry in order, moving on once an entry has exhausted its retries or failed with a non-retryable error
+  fallback: <T>(
+    chatId: string,
+    chain: ElelemFallbackEntry[],
+    systemPrompt: string,
+    userPrompt: string | ElelemMessage[],
     schema: ZodType<T>,
     formatter: ElelemFormatter,
-  ) => Promise<{ result: T; usage: ElelemUsage }>;
+    options?: ElelemGenerateOptions,
+  ) => Promise<{
+    result: T;
+    usage: ElelemUsage;
+    // the entry that answered
+    provider: string;
+    model?: string;
+  }>;
 
-  cohere: <T>(
+  // generates with every member and combines the valid results with the aggregator; members that fail are left out
+  ensemble: <T>(
     chatId: string,
-    modelOptions: Partial<Omit<GenerateRequest, "prompt">>,
+    members: ElelemEnsembleMember[],
     systemPrompt: string,
-    userPrompt: string,
+    userPrompt: string | ElelemMessage[],
     schema: ZodType<T>,
     formatter: ElelemFormatter,
-  ) => Promise<{ result: T; usage: ElelemUsage }>;
+    aggregator: ElelemAggregator<T>,
+    options?: ElelemGenerateOptions,
+  ) => Promise<{
+    result: T;
+    // between 0 and 1, as scored by the aggregator
+    agreement: number;
+    results: T[];
+    usage: ElelemUsage;
+  }>;
 
   action: <AC extends object, T>(
     actionId: string,
@@ -91,12 +495,60 @@ export interface ElelemContext {
     cacheDeserializer: (cacheValue: string) => T,
     operation: (actionContext: AC, span: Span, parentSpan: Span) => Promise<T>,
     backoffOptions?: Partial<BackoffOptions>,
+    options?: ElelemActionOptions,
   ) => Promise<T>;
+
+  // runs fn over every item, at most concurrency at a time, and never rejects because of a failed item
+  // the context passed to fn tallies each item's usage, streams included; items are only retried with backoffOptions
+  map: <I, R>(
+    mapId: string,
+    items: I[],
+    concurrency: number,
+    fn: (item: I, index: number, context: ElelemContext) => Promise<R>,
+    backoffOptions?: Partial<BackoffOptions>,
+  ) => Promise<ElelemMapResult<R>[]>;
+}
+
+export interface ElelemFallbackEntry {
+  // any registered provider, e.g. "openai" or "cohere"
+  provider: string;
+  modelOptions?: object;
+  // overrides the formatter and options passed to fallback for this entry
+  formatter?: ElelemFormatter;
+  options?: ElelemGenerateOptions;
 }
 
+export interface ElelemEnsembleMember extends ElelemFallbackEntry {
+  // defaults to 1, sampled in a single request when the provider supports it
+  // repeated generations skip the cache, since they'd otherwise all read the same entry
+  samples?: number;
+}
+
+export interface ElelemEnsembleRequest<T> {
+  chatId: string;
+  systemPrompt: string;
+  userPrompt: string | ElelemMessage[];
+  schema: ZodType<T>;
+}
+
+// the context can be used to call other models, e.g. a judge, whose usage counts towards the ensemble
+// the aggregated result is checked against the schema, and the ensemble fails if it doesn't match
+export type ElelemAggregator<T> = (
+  results: T[],
+  request: ElelemEnsembleRequest<T>,
+  context: ElelemContext,
+) => Promise<{ result: T; agreement: number }>;
+
+export type ElelemMapResult<R> =
+  | { index: number; ok: true; result: R; usage: ElelemUsage }
+  | { index: number; ok: false; error: ElelemError; usage: ElelemUsage };
+
 export interface ElelemConfigAttributes {
   "elelem.cache.hit": boolean;
+  "elelem.cache.policy": ElelemCachePolicy;
   "elelem.error": string;
+  "elelem.output_mode": ElelemOutputMode;
+  "elelem.repair.count": number;
   "openai.prompt.options": string;
   "openai.prompt.system": string;
   "openai.prompt.user": string;
@@ -106,14 +558,108 @@ export interface ElelemConfigAttributes {
 
 export type ElelemUsage = CompletionUsage & { cost_usd: number };
 
+export type DeepPartial<T> = T extends (infer U)[]
+  ? DeepPartial<U>[]
+  : T extends object
+  ? { [K in keyof T]?: DeepPartial<T[K]> }
+  : T;
+
+export interface ElelemStream<T> extends AsyncIterable<DeepPartial<T>> {
+  // resolves with the validated result once the stream completes, consuming any partials that haven't been read
+  final: () => Promise<{ result: T; usage: ElelemUsage }>;
+}
+
 export class ElelemError extends Error {
   public usage: ElelemUsage;
+  // set on errors thrown from a session
+  public breakdown?: ElelemUsageBreakdown;
 
-  constructor(message: string, usage: ElelemUsage) {
+  constructor(
+    message: string,
+    usage: ElelemUsage,
+    breakdown?: ElelemUsageBreakdown,
+  ) {
     super(message);
     this.usage = usage;
+    this.breakdown = breakdown;
 
     // needed for instanceOf
     Object.setPrototypeOf(this, ElelemError.prototype);
   }
 }
+
+// thrown instead of making a call that could exceed a session or per-call budget
+export class ElelemBudgetExceededError extends ElelemError {
+  public scope: "session" | "call";
+  public limit: keyof ElelemBudget;
+  public max: number;
+  // worst-case usage of the refused call
+  public estimate: ElelemUsage;
+
+  constructor(
+    scope: "session" | "call",
+    limit: keyof ElelemBudget,
+    max: number,
+    estimate: ElelemUsage,
+    usage: ElelemUsage,
+  ) {
+    super(
+      `Refusing call that could exceed the ${scope} ${limit} of ${max} (up to ${
+        limit === "maxCostUsd"
+          ? `$${estimate.cost_usd}`
+          : `${estimate.total_tokens} tokens`
+      } more)`,
+      usage,
+    );
+    this.scope = scope;
+    this.limit = limit;
+    this.max = max;
+    this.estimate = estimate;
+
+    // needed for instanceOf
+    Object.setPrototypeOf(this, ElelemBudgetExceededError.prototype);
+  }
+}
+
+// thrown instead of calling the model when the cache-only policy finds nothing cached
+export class ElelemCacheMissError extends ElelemError {
+  // the chatId or actionId that missed
+  public id: string;
+
+  constructor(id: string, usage?: ElelemUsage) {
+    super(
+      `No cached result for ${id} with the cache-only policy`,
+      usage || {
+        completion_tokens: 0,
+        prompt_tokens: 0,
+        total_tokens: 0,
+        cost_usd: 0,
+      },
+    );
+    this.id = id;
+
+    // needed for instanceOf
+    Object.setPrototypeOf(this, ElelemCacheMissError.prototype);
+  }
+}
+
+// thrown instead of retrying when the model declines to produce the requested output
+export class ElelemRefusalError extends ElelemError {
+  public refusal: string;
+
+  constructor(refusal: string, usage?: ElelemUsage) {
+    super(
+      `Model refused to respond: ${refusal}`,
+      usage || {
+        completion_tokens: 0,
+        prompt_tokens: 0,
+        total_tokens: 0,
+        cost_usd: 0,
+      },
+    );
+    this.refusal = refusal;
+
+    // needed for instanceOf
+    Object.setPrototypeOf(this, ElelemRefusalError.prototype);
+  }
+}